@@ -15,6 +15,7 @@
  *   npx tsx index.ts /path/to/repo                    # Interactive mode or uses PROMPT.md
  *   npx tsx index.ts /path/to/repo "Your task"        # Uses provided prompt
  *   npx tsx index.ts /path/to/repo ./task.md          # Uses prompt from file
+ *   npx tsx index.ts /path/to/repo --resume           # Reopen a past run
  *
  * Environment:
  *   ANTHROPIC_API_KEY - Your Anthropic API key
@@ -26,19 +27,22 @@
 // Load environment variables from .env file
 import 'dotenv/config';
 
-import { RalphLoopAgent, iterationCountIs, addLanguageModelUsage, aggregateStepUsage, type VerifyCompletionContext } from 'ralph-loop-agent';
-import type { LanguageModelUsage, GenerateTextResult } from 'ai';
+import { RalphLoopAgent, RalphLoopRun, FileCheckpointStore, iterationCountIs, addLanguageModelUsage, type RalphIterationStats, type VerifyCompletionContext } from 'ralph-loop-agent';
+import type { LanguageModelUsage } from 'ai';
 import { generateText } from 'ai';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import prompts from 'prompts';
 
-import { log, logSection, logUsageReport, colors } from './lib/logger.js';
-import { MAX_FILE_CHARS } from './lib/constants.js';
+import { log, logSection, logUsageReport, logUsageByModelReport, logIterationStats, logIterationBreakdown, colors } from './lib/logger.js';
+import { MAX_FILE_CHARS, RUNS_DIR } from './lib/constants.js';
 import { initializeSandbox, closeSandbox, readFromSandbox, getSandboxDomain } from './lib/sandbox.js';
 import { getTaskPrompt, runInterviewAndGetPrompt } from './lib/interview.js';
 import { createCodingAgentTools, type CodingTools } from './lib/tools/coding.js';
-import { runJudge } from './lib/judge.js';
+import { createJudge } from './lib/judge.js';
+import { requireApproval, askForApproval } from './lib/approval.js';
+import { selectPastRun } from './lib/runs.js';
 import { 
   isGitHubUrl, 
   parseGitHubUrl, 
@@ -49,7 +53,8 @@ import {
 
 // Get CLI arguments
 const targetArg = process.argv[2];
-const promptArg = process.argv[3];
+const resumeRequested = process.argv[3] === '--resume';
+const promptArg = resumeRequested ? undefined : process.argv[3];
 
 if (!targetArg) {
   console.error('Usage: npx tsx index.ts <target-directory-or-repo> [prompt or prompt-file]');
@@ -59,6 +64,7 @@ if (!targetArg) {
   console.error('  npx tsx index.ts https://github.com/owner/repo             # Clone from GitHub');
   console.error('  npx tsx index.ts ~/Developer/myproject "Add TypeScript"    # With prompt');
   console.error('  npx tsx index.ts ~/Developer/myproject ./task.md           # With prompt file');
+  console.error('  npx tsx index.ts ~/Developer/myproject --resume            # Reopen a past run');
   process.exit(1);
 }
 
@@ -103,18 +109,18 @@ let lastFilesModified: string[] = [];
 let sandboxInitialized = false;
 let isCleaningUp = false;
 let interruptPending = false;
-let interruptResolver: ((action: 'continue' | 'followup' | 'save' | 'quit') => void) | null = null;
-let pendingPlanUpdate: string | null = null;
 let currentTaskPrompt = '';
 
-// Pause mechanism - verifyCompletion awaits this when interrupt is pending
-let pausePromise: Promise<void> | null = null;
-let pauseResolver: (() => void) | null = null;
+// The running agent, so follow-ups can steer it
+let currentAgent: RalphLoopAgent<CodingTools> | null = null;
 
-// Abort controller for stopping the agent mid-iteration
-let currentAbortController: AbortController | null = null;
-let shouldResumeAfterMenu = false;
-let lastIterationCount = 0;
+// The running loop - Ctrl+C pauses it, the menu resumes or stops it
+let currentRun: RalphLoopRun<CodingTools> | null = null;
+
+type InterruptAction = 'continue' | 'followup' | 'stop' | 'save' | 'quit';
+
+// Checkpoints are written after every iteration so runs can be resumed after an interrupt or crash
+const checkpointStore = new FileCheckpointStore(RUNS_DIR);
 
 // Cleanup function - just closes sandbox, doesn't copy files
 async function cleanup(exitCode: number = 0) {
@@ -231,12 +237,12 @@ Generate the updated plan incorporating this feedback.`,
       }, { onCancel: () => false });
 
       if (action === 'confirm') {
-        // Store the updated plan to inject on next iteration
-        pendingPlanUpdate = `The plan has been updated by the user. Here is the NEW plan you should follow:
+        // Send the updated plan to the agent before its next step
+        currentAgent?.steer(`The plan has been updated by the user. Here is the NEW plan you should follow:
 
 ${updatedPlan}
 
-Please acknowledge this update and continue working according to the new plan.`;
+Please acknowledge this update and continue working according to the new plan.`);
         confirmed = true;
         log('  [+] Plan updated', 'green');
         return true;
@@ -287,7 +293,7 @@ Generate the revised plan.`,
 }
 
 // Show interrupt menu using raw stdin for full Ctrl+C control
-async function showInterruptMenu(): Promise<'continue' | 'followup' | 'save' | 'quit'> {
+async function showInterruptMenu(): Promise<InterruptAction> {
   return new Promise((resolve) => {
     console.log('\n');
     log('  ╔═══════════════════════════════════════╗', 'yellow');
@@ -298,8 +304,9 @@ async function showInterruptMenu(): Promise<'continue' | 'followup' | 'save' | '
     log('  [2] Follow up - Send a message to the agent', 'bright');
     log('  [3] Save & exit - Copy files back and exit', 'bright');
     log('  [4] Quit - Exit WITHOUT saving changes', 'bright');
+    log('  [5] Stop - Finish the current iteration, then stop', 'bright');
     log('', 'dim');
-    log('  Press 1-4 to select, or Ctrl+C again to force quit\n', 'dim');
+    log('  Press 1-5 to select, or Ctrl+C again to force quit\n', 'dim');
 
     // Set up raw mode to capture individual keypresses
     if (process.stdin.isTTY) {
@@ -351,6 +358,10 @@ async function showInterruptMenu(): Promise<'continue' | 'followup' | 'save' | '
         cleanup();
         console.log('  → Quit\n');
         resolve('quit');
+      } else if (char === '5' || char === 't' || char === 'T') {
+        cleanup();
+        console.log('  → Stop after this iteration\n');
+        resolve('stop');
       } else if (char === '\r' || char === '\n') {
         // Enter defaults to continue
         cleanup();
@@ -363,7 +374,7 @@ async function showInterruptMenu(): Promise<'continue' | 'followup' | 'save' | '
   });
 }
 
-async function handleFollowUp(): Promise<'continue' | 'followup' | 'save' | 'quit'> {
+async function handleFollowUp(): Promise<InterruptAction> {
   const { message } = await prompts({
     type: 'text',
     name: 'message',
@@ -389,52 +400,31 @@ const handleInterrupt = async () => {
   
   interruptPending = true;
   
-  // Abort the current agent loop immediately
-  if (currentAbortController) {
+  // Pause the agent before its next step (the running step finishes first)
+  if (currentRun) {
     log('\n  [~] Pausing agent...', 'yellow');
-    currentAbortController.abort();
+    currentRun.pause();
   }
   
-  // Create pause promise
-  pausePromise = new Promise<void>((resolve) => {
-    pauseResolver = resolve;
-  });
-  
+  let action: InterruptAction = 'continue';
   try {
-    const action = await showInterruptMenu();
-    
-    interruptPending = false;
-    
-    // Clear pause state
-    if (pauseResolver) {
-      pauseResolver();
-      pauseResolver = null;
-      pausePromise = null;
-    }
-    
-    if (action === 'quit') {
-      shouldResumeAfterMenu = false;
-      await cleanup(130);
-    } else if (action === 'save') {
-      shouldResumeAfterMenu = false;
-      await saveAndCleanup(0);
-    } else if (action === 'continue' || action === 'followup') {
-      if (interruptResolver) {
-        interruptResolver(action);
-        interruptResolver = null;
-      }
-      shouldResumeAfterMenu = true;
-      log('  [>] Resuming agent...', 'green');
-    }
+    action = await showInterruptMenu();
   } catch {
     // Menu was cancelled - this happens when user pressed Ctrl+C once (not force quit)
-    interruptPending = false;
-    if (pauseResolver) {
-      pauseResolver();
-      pauseResolver = null;
-      pausePromise = null;
-    }
-    shouldResumeAfterMenu = true;
+  }
+  interruptPending = false;
+  
+  if (action === 'quit') {
+    currentRun?.abort();
+    await cleanup(130);
+  } else if (action === 'save') {
+    currentRun?.abort();
+    await saveAndCleanup(0);
+  } else if (action === 'stop') {
+    currentRun?.stopAfterIteration();
+    log('  [>] Finishing the current iteration...', 'green');
+  } else {
+    currentRun?.resume();
     log('  [>] Resuming agent...', 'green');
   }
 };
@@ -455,21 +445,13 @@ process.on('unhandledRejection', async (reason) => {
   await saveAndCleanup(1);
 });
 
-// Track running token usage
-let runningUsage: LanguageModelUsage = {
-  inputTokens: 0,
-  outputTokens: 0,
-  totalTokens: 0,
-  inputTokenDetails: {
-    noCacheTokens: undefined,
-    cacheReadTokens: undefined,
-    cacheWriteTokens: undefined,
-  },
-  outputTokenDetails: {
-    textTokens: undefined,
-    reasoningTokens: undefined,
-  },
-};
+// Track running token usage per model, so each model is priced at its own rates
+const runningUsageByModel: Record<string, LanguageModelUsage> = {};
+
+function addRunningUsage(usage: LanguageModelUsage, model: string) {
+  const modelUsage = runningUsageByModel[model];
+  runningUsageByModel[model] = modelUsage ? addLanguageModelUsage(modelUsage, usage) : usage;
+}
 
 const AGENT_MODEL = 'anthropic/claude-opus-4.5';
 
@@ -528,7 +510,22 @@ async function main() {
   // Track if user already confirmed via Plan Mode approval
   let alreadyConfirmed = false;
 
-  const promptResult = await getTaskPrompt(promptArg, resolvedDir);
+  // Run id for checkpoints - reused when reopening a past run
+  let runId: string = randomUUID();
+
+  const pastRun = resumeRequested ? await selectPastRun(checkpointStore) : null;
+  if (resumeRequested && !pastRun) {
+    log('Cancelled.', 'yellow');
+    process.exit(0);
+  }
+
+  const promptResult = pastRun
+    ? { prompt: pastRun.prompt, source: `past run ${pastRun.runId} (iteration ${pastRun.iteration})` }
+    : await getTaskPrompt(promptArg, resolvedDir);
+
+  if (pastRun) {
+    runId = pastRun.runId;
+  }
 
   if ('needsInterview' in promptResult) {
     // Interview mode now uses just-bash with OverlayFs for read-only exploration
@@ -670,24 +667,21 @@ Sandbox dev server URL: ${sandboxDomain}`;
 
     stopWhen: iterationCountIs(20),
 
-    verifyCompletion: async ({ result, originalPrompt }: VerifyCompletionContext<CodingTools>) => {
-      // If there's an interrupt pending, wait for user to finish with the menu
-      if (pausePromise) {
-        log('  [~] Paused - waiting for user input...', 'yellow');
-        await pausePromise;
-        log('  [>] Resuming verification...', 'green');
-      }
+    // Nudge the agent when it repeats the same failing command or edit
+    stallDetection: true,
 
-      // Check if there's a pending plan update from Ctrl+C follow-up
-      if (pendingPlanUpdate) {
-        const update = pendingPlanUpdate;
-        pendingPlanUpdate = null;
-        log('  [>] Injecting plan update into next iteration...', 'yellow');
-        return {
-          complete: false,
-          reason: update,
-        };
-      }
+    // Retry rate limits, overloads and network errors instead of losing the run
+    retry: { maxRetries: 3 },
+
+    // Destructive commands (rm -rf, git push, ...) wait for the user
+    requireApproval,
+    onApprovalRequest: askForApproval,
+
+    checkpointStore,
+    runId,
+
+    verifyCompletion: async (context: VerifyCompletionContext<CodingTools>) => {
+      const { result } = context;
 
       // Check if markComplete was called
       for (const step of result.steps) {
@@ -709,28 +703,38 @@ Sandbox dev server URL: ${sandboxDomain}`;
       if (pendingJudgeReview) {
         pendingJudgeReview = false;
         
-        const judgeResult = await runJudge(
-          originalPrompt,
-          taskSummary,
-          lastFilesModified
-        );
-
-        // Add judge usage to running total
-        runningUsage = addLanguageModelUsage(runningUsage, judgeResult.usage);
+        log('  [-] Judge reviewing...', 'cyan');
+
+        let verdict;
+        try {
+          // The loop adds the judge's usage to its totals; also log it here
+          verdict = await createJudge(taskSummary, lastFilesModified)({
+            ...context,
+            reportUsage: (usage, model, calls) => {
+              context.reportUsage?.(usage, model, calls);
+              addRunningUsage(usage, model);
+              logUsageReport(usage, model, 'Judge');
+            },
+          });
+        } catch (error) {
+          // On error, auto-approve to avoid infinite loop
+          log(`  [!] Judge error: ${error}`, 'red');
+          return { complete: true, reason: `Task complete: ${taskSummary}\n\nJudge encountered an error. Auto-approving.` };
+        }
 
-        if (judgeResult.approved) {
+        if (verdict.complete) {
           log('  [+] Task approved by judge!', 'green');
           return {
             complete: true,
-            reason: `Task complete: ${taskSummary}\n\nJudge verdict: ${judgeResult.feedback}`,
+            reason: `Task complete: ${taskSummary}\n\nJudge verdict: ${verdict.reason}`,
           };
         } else {
           // Judge requested changes - feed back to the agent
           log('  [>] Sending judge feedback to coding agent...', 'yellow');
-          log(`      Feedback preview: ${judgeResult.feedback.slice(0, 150)}...`, 'dim');
+          log(`      Feedback preview: ${verdict.reason?.slice(0, 150)}...`, 'dim');
           return {
             complete: false,
-            reason: `The judge reviewed your work and requested changes:\n\n${judgeResult.feedback}\n\nPlease address these issues and use markComplete again when done.`,
+            reason: `${verdict.reason}\n\nPlease address these issues and use markComplete again when done.`,
           };
         }
       }
@@ -745,43 +749,28 @@ Sandbox dev server URL: ${sandboxDomain}`;
       logSection(`Iteration ${iteration}`);
     },
 
-    onIterationEnd: ({ iteration, duration, result }: { iteration: number; duration: number; result: GenerateTextResult<CodingTools, never> }) => {
-      log(`      Duration: ${duration}ms`, 'dim');
-      
-      // Debug: show per-step usage
-      log(`      Steps: ${result.steps.length}`, 'dim');
-      log(`      result.usage: in=${result.usage.inputTokens}, out=${result.usage.outputTokens}`, 'dim');
-      
-      // Check if cache details exist at result level
-      const resultCache = result.usage.inputTokenDetails;
-      if (resultCache) {
-        log(`      result.cache: read=${resultCache.cacheReadTokens ?? 0}, write=${resultCache.cacheWriteTokens ?? 0}`, 'dim');
-      }
-      
-      let stepInputSum = 0;
-      let stepOutputSum = 0;
-      let cacheReadSum = 0;
-      let cacheWriteSum = 0;
-      for (const step of result.steps) {
-        if (step.usage) {
-          stepInputSum += step.usage.inputTokens ?? 0;
-          stepOutputSum += step.usage.outputTokens ?? 0;
-          cacheReadSum += step.usage.inputTokenDetails?.cacheReadTokens ?? 0;
-          cacheWriteSum += step.usage.inputTokenDetails?.cacheWriteTokens ?? 0;
-        }
+    onIterationError: ({ attempt, error, errorClass, willRetry }) => {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`  [x] Attempt ${attempt} failed (${errorClass}): ${message}`, 'red');
+      if (willRetry) {
+        log('  [>] Retrying...', 'yellow');
       }
-      log(`      step sum: in=${stepInputSum}, out=${stepOutputSum}`, 'dim');
-      log(`      step cache: read=${cacheReadSum}, write=${cacheWriteSum}`, 'dim');
-      
-      // Aggregate usage from all steps for accurate token counts
-      const iterationUsage = aggregateStepUsage(result);
-      
+    },
+
+    onIterationEnd: ({ iteration, stats }: { iteration: number; stats: RalphIterationStats }) => {
+      // The loop computes the iteration's usage, cost, steps and tool calls
+      logIterationStats(stats);
+
       // Update running usage
-      runningUsage = addLanguageModelUsage(runningUsage, iterationUsage);
+      addRunningUsage(stats.usage, stats.model);
+      if (stats.summarizationUsage) {
+        // Summarization runs on the primary model
+        addRunningUsage(stats.summarizationUsage, AGENT_MODEL);
+      }
       
       // Show usage report for this iteration
-      logUsageReport(iterationUsage, AGENT_MODEL, `Iteration ${iteration}`);
-      logUsageReport(runningUsage, AGENT_MODEL, 'Running Total');
+      logUsageReport(stats.usage, stats.model, `Iteration ${iteration}`);
+      logUsageByModelReport(runningUsageByModel, 'Running Total');
     },
 
     onContextSummarized: ({ iteration, summarizedIterations, tokensSaved }: { iteration: number; summarizedIterations: number; tokensSaved: number }) => {
@@ -789,79 +778,38 @@ Sandbox dev server URL: ${sandboxDomain}`;
     },
   });
 
+  currentAgent = agent;
+
   logSection('Starting Task');
   log('The agent will iterate until the task is complete...', 'dim');
   log(`Dev server URL: ${sandboxDomain}`, 'blue');
 
   const startTime = Date.now();
   let finalResult: Awaited<ReturnType<typeof agent.loop>> | null = null;
-  let preserveContext = false;
-
-  // Main loop that handles abort/resume
-  while (true) {
-    currentAbortController = new AbortController();
-    shouldResumeAfterMenu = false;
 
-    try {
-      const result = await agent.loop({
-        prompt: preserveContext 
-          ? (pendingPlanUpdate || 'Continue working on the task from where you left off.')
-          : taskPrompt,
-        abortSignal: currentAbortController.signal,
-        preserveContext,
-        startIteration: lastIterationCount,
-      });
-
-      // Clear any pending plan update that was used
-      if (preserveContext && pendingPlanUpdate) {
-        pendingPlanUpdate = null;
-      }
+  // Continue from the latest checkpoint if this run already has one
+  const checkpoint = await checkpointStore.load(runId);
+  const run = checkpoint ? agent.start({ checkpoint }) : agent.start({ prompt: taskPrompt });
+  currentRun = run;
 
-      lastIterationCount = result.iterations;
-      finalResult = result;
-
-      // Check if aborted - wait for menu to complete
-      if (result.completionReason === 'aborted') {
-        // Wait for menu interaction to complete
-        while (interruptPending) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-        
-        if (shouldResumeAfterMenu) {
-          preserveContext = true;
-          log('  [>] Continuing from iteration ' + lastIterationCount + '...', 'blue');
-          continue; // Resume the loop
-        } else {
-          // User chose quit or save - exit the loop
-          break;
-        }
-      }
+  run.onStateChange(({ state }) => {
+    if (state === 'paused') {
+      log('  [~] Paused - waiting for user input...', 'yellow');
+    }
+  });
 
-      // Normal completion - exit the loop
-      break;
-    } catch (error: any) {
-      // Check if this was an abort error
-      if (error?.name === 'AbortError' || currentAbortController.signal.aborted) {
-        // Wait for menu interaction to complete
-        while (interruptPending) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-        
-        if (shouldResumeAfterMenu) {
-          preserveContext = true;
-          continue; // Resume the loop
-        } else {
-          break;
-        }
-      }
-      // Re-throw other errors
+  try {
+    finalResult = await run.result;
+  } catch (error: any) {
+    // Quit or save from the menu aborted the loop before an iteration finished
+    if (error?.name !== 'AbortError' && !isCleaningUp) {
       throw error;
     }
   }
 
-  currentAbortController = null;
+  currentRun = null;
 
-  if (!finalResult) {
+  if (!finalResult || finalResult.stop === 'hard') {
     // User quit without completing
     return;
   }
@@ -872,11 +820,20 @@ Sandbox dev server URL: ${sandboxDomain}`;
   logSection('Result');
   log(`Status: ${result.completionReason}`, result.completionReason === 'verified' ? 'green' : 'yellow');
   log(`Iterations: ${result.iterations}`, 'blue');
+  for (const condition of result.stopConditions ?? []) {
+    log(`Stopped by ${condition.id}: ${condition.message}`, 'yellow');
+  }
+  if (result.completionReason === 'error') {
+    const message = result.error instanceof Error ? result.error.message : String(result.error);
+    log(`Error: ${message} (resume with --resume)`, 'red');
+  }
+  log(`Run id: ${runId} (reopen with --resume)`, 'dim');
   log(`Total time: ${Math.round(totalDuration / 1000)}s`, 'blue');
 
   // Show final usage report
   logSection('Final Usage Report');
-  logUsageReport(result.totalUsage, AGENT_MODEL, 'Total');
+  logUsageByModelReport(result.usageByModel, 'Total');
+  logIterationBreakdown(result.iterationStats);
 
   if (result.reason) {
     logSection('Summary');
@@ -0,0 +1,81 @@
+/**
+ * Approval gate for destructive shell commands
+ */
+
+import prompts from 'prompts';
+import type { RalphApprovalDecision, RalphApprovalRequest } from 'ralph-loop-agent';
+import { log } from './logger.js';
+
+// Commands that need a human to approve them before they run
+const DANGEROUS_COMMANDS = [
+  /\brm\s+-[a-z]*[rf]/i,
+  /\bgit\s+push\b/,
+  /\bgit\s+reset\s+--hard\b/,
+  /\bgit\s+clean\b/,
+  /\bnpm\s+publish\b/,
+  /\bcurl\b.*\|\s*(sh|bash)\b/,
+];
+
+/**
+ * Whether a tool call needs approval.
+ */
+export function requireApproval({ toolName, input }: RalphApprovalRequest): boolean {
+  if (toolName !== 'runCommand') {
+    return false;
+  }
+  const { command } = input as { command: string };
+  return DANGEROUS_COMMANDS.some(pattern => pattern.test(command));
+}
+
+/**
+ * Ask the user to approve, deny or edit a command.
+ */
+export async function askForApproval({ input }: RalphApprovalRequest): Promise<RalphApprovalDecision> {
+  const { command } = input as { command: string };
+
+  console.log();
+  log('  [?] The agent wants to run:', 'yellow');
+  log(`      ${command}`, 'bright');
+
+  const { action } = await prompts({
+    type: 'select',
+    name: 'action',
+    message: 'Allow this command?',
+    choices: [
+      { title: 'Approve - Run the command', value: 'approve' },
+      { title: 'Deny - Tell the agent why not', value: 'deny' },
+      { title: 'Edit - Run a different command', value: 'edit' },
+    ],
+  }, { onCancel: () => false });
+
+  if (action === 'approve') {
+    log('  [+] Command approved', 'green');
+    return { action: 'approve' };
+  }
+
+  if (action === 'edit') {
+    const { edited } = await prompts({
+      type: 'text',
+      name: 'edited',
+      message: 'Command to run:',
+      initial: command,
+    }, { onCancel: () => false });
+
+    if (edited) {
+      log(`  [~] Running edited command`, 'yellow');
+      return { action: 'edit', input: { command: edited } };
+    }
+  }
+
+  const { reason } = await prompts({
+    type: 'text',
+    name: 'reason',
+    message: 'Why not? (sent to the agent)',
+  }, { onCancel: () => false });
+
+  log('  [x] Command denied', 'red');
+  return {
+    action: 'deny',
+    reason: reason || 'The user did not allow this command. Find another way or ask in your summary.',
+  };
+}
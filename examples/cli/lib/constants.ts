@@ -8,3 +8,6 @@ export const MAX_FILE_LINES_PREVIEW = 400;
 
 // Sandbox
 export const SANDBOX_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+// Checkpoints (one directory per run, one JSON file per iteration)
+export const RUNS_DIR = `${process.env.HOME || '.'}/.ralph/runs`;
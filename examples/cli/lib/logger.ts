@@ -3,7 +3,7 @@
  */
 
 import type { LanguageModelUsage } from 'ai';
-import { getModelPricing, calculateCost } from 'ralph-loop-agent';
+import { getModelPricing, calculateCost, type RalphIterationStats } from 'ralph-loop-agent';
 
 export const colors = {
   reset: '\x1b[0m',
@@ -50,24 +50,77 @@ export function logUsageReport(
   model: string,
   label = 'Usage'
 ) {
-  const inputTokens = usage.inputTokens ?? 0;
-  const outputTokens = usage.outputTokens ?? 0;
-  const totalTokens = usage.totalTokens ?? (inputTokens + outputTokens);
-  
-  const pricing = getModelPricing(model);
+  logUsageByModelReport({ [model]: usage }, label);
+}
+
+/**
+ * Log a usage report for several models, each priced at its own rates.
+ */
+export function logUsageByModelReport(
+  usageByModel: Record<string, LanguageModelUsage>,
+  label = 'Usage'
+) {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let totalTokens = 0;
+  let cost = 0;
+  const unpriced: string[] = [];
+
+  for (const [model, usage] of Object.entries(usageByModel)) {
+    inputTokens += usage.inputTokens ?? 0;
+    outputTokens += usage.outputTokens ?? 0;
+    totalTokens += usage.totalTokens ?? ((usage.inputTokens ?? 0) + (usage.outputTokens ?? 0));
+
+    const pricing = getModelPricing(model);
+    if (pricing) {
+      cost += calculateCost(usage, pricing);
+    } else {
+      unpriced.push(model);
+    }
+  }
   
   log(`  ┌─ ${label} ─────────────────────────────`, 'dim');
   log(`  │  Input tokens:  ${formatNumber(inputTokens)}`, 'dim');
   log(`  │  Output tokens: ${formatNumber(outputTokens)}`, 'dim');
   log(`  │  Total tokens:  ${formatNumber(totalTokens)}`, 'dim');
   
-  if (pricing) {
-    const cost = calculateCost(usage, pricing);
+  if (unpriced.length === 0) {
     log(`  │  Est. cost:     ${formatCost(cost)}`, 'yellow');
   } else {
-    log(`  │  Est. cost:     (unknown pricing for ${model})`, 'dim');
+    log(`  │  Est. cost:     (unknown pricing for ${unpriced.join(', ')})`, 'dim');
   }
   
   log(`  └────────────────────────────────────────`, 'dim');
 }
 
+
+/**
+ * Log the steps, tool calls and cache usage of an iteration.
+ */
+export function logIterationStats(stats: RalphIterationStats) {
+  const toolCalls = Object.entries(stats.toolCalls)
+    .map(([name, count]) => `${name}×${count}`)
+    .join(', ');
+
+  log(`      Duration: ${stats.duration}ms, steps: ${stats.steps}`, 'dim');
+  log(`      Tools: ${toolCalls || 'none'}`, 'dim');
+  log(`      Cache: read=${formatNumber(stats.cacheReadTokens)}, write=${formatNumber(stats.cacheWriteTokens)}`, 'dim');
+  if (stats.summarizationUsage) {
+    const cost = stats.summarizationCost !== undefined ? ` (${formatCost(stats.summarizationCost)})` : '';
+    log(`      Summarization: ${formatNumber(stats.summarizationUsage.totalTokens ?? 0)} tokens${cost}`, 'dim');
+  }
+}
+
+/**
+ * Log a one-line-per-iteration cost breakdown.
+ */
+export function logIterationBreakdown(allStats: RalphIterationStats[]) {
+  for (const stats of allStats) {
+    const cost = stats.cost !== undefined ? formatCost(stats.cost + (stats.summarizationCost ?? 0)) : '(unknown)';
+    const verdict = stats.verification ? (stats.verification.complete ? 'verified' : 'rejected') : '-';
+    log(
+      `  #${stats.iteration}  ${formatNumber(stats.usage.totalTokens ?? 0)} tokens  ${cost}  ${Math.round(stats.duration / 1000)}s  ${stats.steps} steps  ${verdict}`,
+      'dim'
+    );
+  }
+}
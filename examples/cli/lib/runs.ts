@@ -0,0 +1,43 @@
+/**
+ * Listing and reopening past runs from the checkpoint store
+ */
+
+import prompts from 'prompts';
+import type { CheckpointStore } from 'ralph-loop-agent';
+import { log } from './logger.js';
+
+/**
+ * Let the user pick a past run to reopen. Returns null if there are none or the user cancels.
+ */
+export async function selectPastRun(
+  store: CheckpointStore
+): Promise<{ runId: string; prompt: string; iteration: number } | null> {
+  const runs = await store.listRuns();
+
+  if (runs.length === 0) {
+    log('  [i] No past runs found', 'dim');
+    return null;
+  }
+
+  const { runId } = await prompts({
+    type: 'select',
+    name: 'runId',
+    message: 'Which run would you like to reopen?',
+    choices: runs.map(run => {
+      const preview = run.prompt.split('\n')[0].slice(0, 60);
+      const status = run.completionReason ?? 'interrupted';
+      return {
+        title: `${preview} (iteration ${run.iteration}, ${status})`,
+        description: `${run.runId} - ${new Date(run.updatedAt).toLocaleString()}`,
+        value: run.runId,
+      };
+    }),
+  }, { onCancel: () => false });
+
+  const run = runs.find(r => r.runId === runId);
+  if (!run) {
+    return null;
+  }
+
+  return { runId: run.runId, prompt: run.prompt, iteration: run.iteration };
+}
@@ -314,27 +314,6 @@ export function createJudgeTools() {
         }
       },
     }),
-
-    approveTask: tool({
-      description: 'Approve the task as complete - all success criteria are met',
-      inputSchema: z.object({
-        reason: z.string().describe('Why the task is complete and meets all criteria'),
-      }),
-      execute: async ({ reason }) => {
-        return { approved: true, reason };
-      },
-    }),
-
-    requestChanges: tool({
-      description: 'Request changes - the task is NOT complete or has issues',
-      inputSchema: z.object({
-        issues: z.array(z.string()).describe('List of specific issues that need to be fixed'),
-        suggestions: z.array(z.string()).describe('Specific suggestions for the coding agent'),
-      }),
-      execute: async ({ issues, suggestions }) => {
-        return { approved: false, issues, suggestions };
-      },
-    }),
   };
 }
 
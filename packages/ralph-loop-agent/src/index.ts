@@ -3,8 +3,26 @@ export { RalphLoopAgent } from './ralph-loop-agent';
 export type {
   RalphLoopAgentCallParameters,
   RalphLoopAgentResult,
+  RalphLoopParallelParameters,
+  RalphLoopParallelResult,
 } from './ralph-loop-agent';
 
+// Loop event types
+export type {
+  RalphLoopEvent,
+  RalphIterationStartEvent,
+  RalphTextDeltaEvent,
+  RalphToolCallEvent,
+  RalphToolResultEvent,
+  RalphStepFinishEvent,
+  RalphIterationEndEvent,
+  RalphIterationErrorEvent,
+  RalphVerificationEvent,
+  RalphModelEscalatedEvent,
+  RalphContextSummarizedEvent,
+  RalphStopEvent,
+} from './ralph-loop-agent-events';
+
 // Stop condition exports
 export {
   iterationCountIs,
@@ -12,22 +30,53 @@ export {
   inputTokenCountIs,
   outputTokenCountIs,
   costIs,
-  getModelPricing,
-  calculateCost,
+  wallClockIs,
+  noToolCallsFor,
+  verificationFailedTimes,
+  toolErrorRateIs,
+  repeatedActionsIs,
+  and,
+  or,
+  not,
+  namedStopCondition,
+  getRemainingBudget,
   addLanguageModelUsage,
   aggregateStepUsage,
 } from './ralph-stop-condition';
 export type {
   RalphStopCondition,
   RalphStopConditionContext,
-  CostRates,
+  RalphStopConditionKind,
+  RalphStopConditionInfo,
+  RalphRemainingBudget,
 } from './ralph-stop-condition';
 
+// Pricing exports
+export {
+  getModelPricing,
+  resolveModelPricing,
+  registerModelPricing,
+  loadModelPricing,
+  setUnknownModelBehavior,
+  calculateCost,
+  getTierRates,
+} from './ralph-pricing';
+export type {
+  CostRates,
+  CostRateTier,
+  UnknownModelBehavior,
+  RegisterModelPricingOptions,
+  ModelPricingFile,
+} from './ralph-pricing';
+
 // Settings types
 export type {
   RalphLoopAgentSettings,
   OnIterationStartCallback,
   OnIterationEndCallback,
+  OnIterationErrorCallback,
+  ContinuationPromptFunction,
+  FormatFeedbackFunction,
 } from './ralph-loop-agent-settings';
 
 // Verification types
@@ -37,16 +86,115 @@ export type {
   VerifyCompletionResult,
 } from './ralph-loop-agent-evaluator';
 
+// Checkpoint exports
+export { RALPH_CHECKPOINT_VERSION } from './ralph-checkpoint';
+export {
+  InMemoryCheckpointStore,
+  FileCheckpointStore,
+} from './ralph-checkpoint-store';
+export type {
+  CheckpointStore,
+  CheckpointRunInfo,
+} from './ralph-checkpoint-store';
+export type {
+  RalphLoopCheckpoint,
+  CheckpointFunction,
+} from './ralph-checkpoint';
+
 // Context management exports
 export {
   RalphContextManager,
-  estimateTokens,
-  estimateMessageTokens,
+  formatContextInjection,
   createContextAwareTools,
 } from './ralph-context-manager';
 export type {
   RalphContextConfig,
+  RalphContextState,
   TrackedFile,
   ChangeLogEntry,
   IterationSummary,
 } from './ralph-context-manager';
+
+// Token counting exports
+export {
+  estimateTokens,
+  estimateMessageTokens,
+  heuristicTokenCounter,
+  createBpeTokenCounter,
+} from './ralph-token-counter';
+export type { TokenCounter, BpeEncoding } from './ralph-token-counter';
+
+// Stall detection exports
+export {
+  findRepeatedActions,
+  fingerprintAction,
+  buildStallNudge,
+} from './ralph-stall-detector';
+export type {
+  RalphStallDetectionConfig,
+  RepeatedAction,
+} from './ralph-stall-detector';
+
+// Retry exports
+export {
+  classifyError,
+  getRetryDelay,
+  dropOldestMessages,
+} from './ralph-retry';
+export type {
+  RalphErrorClass,
+  RalphErrorClassifier,
+  RalphRetryConfig,
+} from './ralph-retry';
+
+// Escalation exports
+export { updateEscalationState } from './ralph-escalation';
+export type {
+  RalphEscalationPolicy,
+  RalphEscalationState,
+} from './ralph-escalation';
+
+// Verifier exports
+export {
+  allOf,
+  anyOf,
+  majorityOf,
+  textIncludes,
+  toolWasCalled,
+  outputMatchesSchema,
+  custom,
+} from './ralph-verifiers';
+
+// Judge exports
+export { llmJudge } from './ralph-judge';
+export type { LlmJudgeConfig } from './ralph-judge';
+
+// Sub-agent exports
+export { createSubAgentTool } from './ralph-sub-agent';
+export type { SubAgentToolOptions, RalphLoopRuntime } from './ralph-sub-agent';
+
+// Checklist exports
+export { RalphTaskList, extractTasksFromPrompt } from './ralph-tasks';
+export type { RalphTask, RalphTaskInput, RalphTaskStatus } from './ralph-tasks';
+
+// Fresh-context exports
+export { RalphProgressNotes } from './ralph-notes';
+
+// Approval exports
+export type {
+  RalphApprovalRequest,
+  RalphApprovalDecision,
+  RalphDeniedToolResult,
+  RequireApprovalFunction,
+  ApprovalRequestFunction,
+} from './ralph-approval';
+
+// Steering exports
+export type { RalphSteeringTiming, RalphSteerOptions } from './ralph-steering';
+
+// Run handle exports
+export { RalphLoopRun } from './ralph-loop-run';
+export type { RalphLoopRunState, RalphLoopRunStateChange } from './ralph-loop-run';
+
+// Iteration stats exports
+export type { RalphIterationStats } from './ralph-iteration-stats';
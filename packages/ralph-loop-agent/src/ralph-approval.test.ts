@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import type { RalphApprovalDecision, RalphApprovalRequest } from './ralph-approval';
+import { textResponse, toolCallResponse } from './test-utils';
+
+// Runs the given commands in the first step, then answers with text
+const createModel = (commands: Array<string>) => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async () =>
+      ++call === 1
+        ? toolCallResponse(commands.map(command => ({ toolName: 'runCommand', input: { command } })))
+        : textResponse('Done'),
+  });
+};
+
+const createAgent = (
+  commands: Array<string>,
+  onApprovalRequest?: (request: RalphApprovalRequest) => RalphApprovalDecision
+) => {
+  const executed: Array<string> = [];
+  const agent = new RalphLoopAgent({
+    model: createModel(commands),
+    tools: {
+      runCommand: tool({
+        inputSchema: z.object({ command: z.string() }),
+        execute: async ({ command }) => {
+          executed.push(command);
+          return { exitCode: 0 };
+        },
+      }),
+    },
+    requireApproval: ({ toolName, input }) =>
+      toolName === 'runCommand' && /rm -rf|git push/.test((input as { command: string }).command),
+    onApprovalRequest,
+    verifyCompletion: () => ({ complete: true }),
+  });
+  return { agent, executed };
+};
+
+describe('requireApproval', () => {
+  it('should only ask for matching calls and return denials as tool results', async () => {
+    const requests: Array<RalphApprovalRequest> = [];
+    const { agent, executed } = createAgent(['ls', 'rm -rf /'], request => {
+      requests.push(request);
+      return { action: 'deny', reason: 'Do not delete the root directory' };
+    });
+
+    const result = await agent.loop({ prompt: 'Clean up' });
+
+    expect(executed).toEqual(['ls']);
+    expect(requests).toEqual([
+      expect.objectContaining({
+        toolName: 'runCommand',
+        toolCallId: 'call-2',
+        input: { command: 'rm -rf /' },
+        iteration: 1,
+      }),
+    ]);
+    expect(result.result!.steps[0]!.toolResults[1]!.output).toEqual({
+      denied: true,
+      reason: 'Do not delete the root directory',
+    });
+  });
+
+  it('should run approved calls and calls with an edited input', async () => {
+    const { agent, executed } = createAgent(['rm -rf dist', 'git push --force'], ({ input }) =>
+      (input as { command: string }).command.startsWith('rm')
+        ? { action: 'approve' }
+        : { action: 'edit', input: { command: 'git push' } }
+    );
+
+    await agent.loop({ prompt: 'Ship it' });
+
+    expect(executed).toEqual(['rm -rf dist', 'git push']);
+  });
+
+  it('should deny matching calls without an approval handler', async () => {
+    const { agent, executed } = createAgent(['git push']);
+
+    const result = await agent.loop({ prompt: 'Ship it' });
+
+    expect(executed).toEqual([]);
+    expect(result.result!.steps[0]!.toolResults[0]!.output).toMatchObject({ denied: true });
+  });
+
+  it("should send denials to the model without the tool's toModelOutput", async () => {
+    const model = createModel(['ls', 'git push']);
+    const agent = new RalphLoopAgent({
+      model,
+      tools: {
+        runCommand: tool({
+          inputSchema: z.object({ command: z.string() }),
+          execute: async () => ({ exitCode: 0 }),
+          toModelOutput: ({ output }) => ({ type: 'text', value: `Exit code ${output.exitCode.toFixed()}` }),
+        }),
+      },
+      requireApproval: ({ input }) => (input as { command: string }).command === 'git push',
+      verifyCompletion: () => ({ complete: true }),
+    });
+
+    await agent.loop({ prompt: 'Ship it' });
+
+    const toolMessage = model.doGenerateCalls[1]!.prompt.find(message => message.role === 'tool');
+    expect(toolMessage?.content).toEqual([
+      expect.objectContaining({ output: { type: 'text', value: 'Exit code 0' } }),
+      expect.objectContaining({
+        output: {
+          type: 'json',
+          value: { denied: true, reason: 'This tool call needs approval, but nobody can approve it' },
+        },
+      }),
+    ]);
+  });
+});
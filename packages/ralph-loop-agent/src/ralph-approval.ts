@@ -0,0 +1,116 @@
+import type { Tool, ToolSet } from 'ai';
+
+/**
+ * A tool call that is waiting for approval.
+ */
+export interface RalphApprovalRequest {
+  toolName: string;
+  toolCallId: string;
+  /** The input the model called the tool with. */
+  input: unknown;
+  /** The iteration the call was made in (1-indexed). */
+  iteration: number;
+  /** Fires when the loop is aborted while the call waits. */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * The answer to an approval request:
+ * - `approve`: run the tool with the model's input
+ * - `deny`: do not run the tool; the reason goes back to the model as the tool result
+ * - `edit`: run the tool with a different input
+ */
+export type RalphApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string }
+  | { action: 'edit'; input: unknown };
+
+/**
+ * Decides whether a tool call needs approval before it runs.
+ */
+export type RequireApprovalFunction = (
+  request: RalphApprovalRequest
+) => boolean | Promise<boolean>;
+
+/**
+ * Asks for approval of a tool call, e.g. from a human. The tool call waits
+ * until the returned promise settles.
+ */
+export type ApprovalRequestFunction = (
+  request: RalphApprovalRequest
+) => RalphApprovalDecision | Promise<RalphApprovalDecision>;
+
+/**
+ * The tool result the model gets for a denied call.
+ */
+export interface RalphDeniedToolResult {
+  denied: true;
+  reason: string;
+}
+
+/**
+ * Gate the tools with an `execute` function behind approval: calls for which
+ * `requireApproval` returns true only run once `onApprovalRequest` approves them.
+ * Without `onApprovalRequest`, those calls are denied.
+ */
+export function gateToolsWithApproval<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  {
+    requireApproval,
+    onApprovalRequest,
+    getIteration,
+  }: {
+    requireApproval: RequireApprovalFunction;
+    onApprovalRequest?: ApprovalRequestFunction;
+    getIteration: () => number;
+  }
+): TOOLS {
+  const denials = new WeakSet<RalphDeniedToolResult>();
+
+  return Object.fromEntries(
+    Object.entries(tools).map(([toolName, t]) => {
+      const { execute, toModelOutput } = t;
+      if (!execute) {
+        return [toolName, t];
+      }
+
+      const gated: Tool = {
+        ...t,
+        execute: async (input, options) => {
+          const request: RalphApprovalRequest = {
+            toolName,
+            toolCallId: options.toolCallId,
+            input,
+            iteration: getIteration(),
+            abortSignal: options.abortSignal,
+          };
+          if (!(await requireApproval(request))) {
+            return execute(input, options);
+          }
+
+          const decision: RalphApprovalDecision = onApprovalRequest
+            ? await onApprovalRequest(request)
+            : { action: 'deny', reason: 'This tool call needs approval, but nobody can approve it' };
+
+          if (decision.action === 'deny') {
+            const denial: RalphDeniedToolResult = {
+              denied: true,
+              reason: decision.reason ?? 'The tool call was denied',
+            };
+            denials.add(denial);
+            return denial;
+          }
+          return execute(decision.action === 'edit' ? decision.input : input, options);
+        },
+        // The tool's own conversion expects its output, not a denial
+        toModelOutput:
+          toModelOutput &&
+          (options =>
+            denials.has(options.output)
+              ? { type: 'json', value: options.output }
+              : toModelOutput(options)),
+      };
+      return [toolName, gated];
+    })
+  ) as TOOLS;
+}
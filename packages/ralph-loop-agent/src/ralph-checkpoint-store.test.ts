@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+  type CheckpointStore,
+} from './ralph-checkpoint-store';
+import { RALPH_CHECKPOINT_VERSION, type RalphLoopCheckpoint } from './ralph-checkpoint';
+
+const createCheckpoint = (
+  iteration: number,
+  overrides: Partial<RalphLoopCheckpoint> = {},
+): RalphLoopCheckpoint => ({
+  version: RALPH_CHECKPOINT_VERSION,
+  prompt: 'Do something',
+  iteration,
+  messages: [{ role: 'user', content: [{ type: 'text', text: `Feedback ${iteration}` }] }],
+  totalUsage: {
+    inputTokens: iteration * 10,
+    inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: undefined, cacheWriteTokens: undefined },
+    outputTokens: iteration * 20,
+    outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+    totalTokens: iteration * 30,
+  },
+  createdAt: iteration,
+  ...overrides,
+});
+
+const runStoreTests = (createStore: () => CheckpointStore) => {
+  it('should load the latest checkpoint of a run', async () => {
+    const store = createStore();
+    await store.save('run-a', createCheckpoint(1));
+    await store.save('run-a', createCheckpoint(2));
+
+    expect((await store.load('run-a'))?.iteration).toBe(2);
+    expect((await store.load('run-a', 1))?.iteration).toBe(1);
+    expect(await store.load('run-a', 3)).toBeUndefined();
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should list runs, most recently updated first', async () => {
+    const store = createStore();
+    await store.save('run-a', createCheckpoint(1, { createdAt: 100 }));
+    await store.save('run-b', createCheckpoint(3, { createdAt: 200, completionReason: 'verified' }));
+
+    expect(await store.listRuns()).toEqual([
+      { runId: 'run-b', iteration: 3, prompt: 'Do something', completionReason: 'verified', updatedAt: 200 },
+      { runId: 'run-a', iteration: 1, prompt: 'Do something', completionReason: undefined, updatedAt: 100 },
+    ]);
+  });
+
+  it('should delete runs', async () => {
+    const store = createStore();
+    await store.save('run-a', createCheckpoint(1));
+    await store.deleteRun('run-a');
+
+    expect(await store.load('run-a')).toBeUndefined();
+    expect(await store.listRuns()).toEqual([]);
+  });
+};
+
+describe('InMemoryCheckpointStore', () => {
+  runStoreTests(() => new InMemoryCheckpointStore());
+
+  it('should not be affected by later mutations of a saved checkpoint', async () => {
+    const store = new InMemoryCheckpointStore();
+    const checkpoint = createCheckpoint(1);
+    await store.save('run-a', checkpoint);
+    checkpoint.messages.push({ role: 'user', content: 'mutated' });
+
+    expect((await store.load('run-a'))?.messages).toHaveLength(1);
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-checkpoints-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  runStoreTests(() => new FileCheckpointStore(directory));
+
+  it('should write one JSON file per iteration without leftover temp files', async () => {
+    const store = new FileCheckpointStore(directory);
+    await store.save('run-a', createCheckpoint(1));
+    await store.save('run-a', createCheckpoint(2));
+
+    const files = await fs.readdir(path.join(directory, 'run-a'));
+    expect(files.sort()).toEqual(['iteration-0001.json', 'iteration-0002.json']);
+  });
+
+  it('should return no runs when the directory does not exist', async () => {
+    const store = new FileCheckpointStore(path.join(directory, 'missing'));
+    expect(await store.listRuns()).toEqual([]);
+  });
+
+  it('should reject run ids that escape the directory', async () => {
+    const store = new FileCheckpointStore(directory);
+    await expect(store.save('../escape', createCheckpoint(1))).rejects.toThrow('Invalid run id');
+  });
+});
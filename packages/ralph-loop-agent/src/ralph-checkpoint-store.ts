@@ -0,0 +1,231 @@
+import type { Dirent } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { RalphLoopCheckpoint } from './ralph-checkpoint';
+
+/**
+ * Summary of a stored run.
+ */
+export interface CheckpointRunInfo {
+  runId: string;
+  /** The latest checkpointed iteration. */
+  iteration: number;
+  prompt: string;
+  /** Set if the run finished. */
+  completionReason?: RalphLoopCheckpoint['completionReason'];
+  /** When the latest checkpoint was created (ms since epoch). */
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for loop checkpoints.
+ *
+ * Implement this interface to persist checkpoints somewhere else
+ * (SQLite, a KV store, object storage, ...).
+ */
+export interface CheckpointStore {
+  /**
+   * Persist a checkpoint for a run.
+   */
+  save(runId: string, checkpoint: RalphLoopCheckpoint): Promise<void>;
+
+  /**
+   * Load a checkpoint for a run. Returns the latest one unless an iteration is given.
+   */
+  load(runId: string, iteration?: number): Promise<RalphLoopCheckpoint | undefined>;
+
+  /**
+   * List all stored runs, most recently updated first.
+   */
+  listRuns(): Promise<Array<CheckpointRunInfo>>;
+
+  /**
+   * Delete all checkpoints of a run.
+   */
+  deleteRun(runId: string): Promise<void>;
+}
+
+/**
+ * Build the run summary for a checkpoint.
+ */
+function toRunInfo(runId: string, checkpoint: RalphLoopCheckpoint): CheckpointRunInfo {
+  return {
+    runId,
+    iteration: checkpoint.iteration,
+    prompt: checkpoint.prompt,
+    completionReason: checkpoint.completionReason,
+    updatedAt: checkpoint.createdAt,
+  };
+}
+
+/**
+ * Sort runs so the most recently updated come first.
+ */
+function sortRuns(runs: Array<CheckpointRunInfo>): Array<CheckpointRunInfo> {
+  return runs.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Keeps checkpoints in memory. Useful for tests and in-process resume.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private runs: Map<string, Map<number, string>> = new Map();
+
+  async save(runId: string, checkpoint: RalphLoopCheckpoint): Promise<void> {
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = new Map();
+      this.runs.set(runId, run);
+    }
+    // Store serialized so later mutations don't leak into saved checkpoints
+    run.set(checkpoint.iteration, JSON.stringify(checkpoint));
+  }
+
+  async load(runId: string, iteration?: number): Promise<RalphLoopCheckpoint | undefined> {
+    const run = this.runs.get(runId);
+    if (!run || run.size === 0) {
+      return undefined;
+    }
+    const key = iteration ?? Math.max(...run.keys());
+    const serialized = run.get(key);
+    return serialized ? (JSON.parse(serialized) as RalphLoopCheckpoint) : undefined;
+  }
+
+  async listRuns(): Promise<Array<CheckpointRunInfo>> {
+    const runs: Array<CheckpointRunInfo> = [];
+    for (const runId of this.runs.keys()) {
+      const latest = await this.load(runId);
+      if (latest) {
+        runs.push(toRunInfo(runId, latest));
+      }
+    }
+    return sortRuns(runs);
+  }
+
+  async deleteRun(runId: string): Promise<void> {
+    this.runs.delete(runId);
+  }
+}
+
+/**
+ * Stores checkpoints on disk as one JSON file per iteration:
+ *
+ * ```
+ * <directory>/<runId>/iteration-0001.json
+ * <directory>/<runId>/iteration-0002.json
+ * ```
+ *
+ * Files are written to a temporary file first and renamed into place,
+ * so a crash mid-write never leaves a truncated checkpoint behind.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(runId: string, checkpoint: RalphLoopCheckpoint): Promise<void> {
+    const runDir = this.getRunDir(runId);
+    await fs.mkdir(runDir, { recursive: true });
+
+    const filePath = path.join(runDir, this.getFileName(checkpoint.iteration));
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(checkpoint), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async load(runId: string, iteration?: number): Promise<RalphLoopCheckpoint | undefined> {
+    const runDir = this.getRunDir(runId);
+
+    let fileName: string | undefined;
+    if (iteration !== undefined) {
+      fileName = this.getFileName(iteration);
+    } else {
+      const iterations = await this.listIterations(runDir);
+      const latest = iterations[iterations.length - 1];
+      fileName = latest !== undefined ? this.getFileName(latest) : undefined;
+    }
+
+    if (!fileName) {
+      return undefined;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(runDir, fileName), 'utf-8');
+      return JSON.parse(content) as RalphLoopCheckpoint;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async listRuns(): Promise<Array<CheckpointRunInfo>> {
+    let entries: Array<Dirent>;
+    try {
+      entries = await fs.readdir(this.directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const runs: Array<CheckpointRunInfo> = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const latest = await this.load(entry.name);
+      if (latest) {
+        runs.push(toRunInfo(entry.name, latest));
+      }
+    }
+    return sortRuns(runs);
+  }
+
+  async deleteRun(runId: string): Promise<void> {
+    await fs.rm(this.getRunDir(runId), { recursive: true, force: true });
+  }
+
+  /**
+   * Get the directory for a run, rejecting ids that would escape the store.
+   */
+  private getRunDir(runId: string): string {
+    if (!runId || runId === '.' || runId === '..' || /[\\/]/.test(runId)) {
+      throw new Error(`Invalid run id "${runId}"`);
+    }
+    return path.join(this.directory, runId);
+  }
+
+  private getFileName(iteration: number): string {
+    return `iteration-${String(iteration).padStart(4, '0')}.json`;
+  }
+
+  /**
+   * List the checkpointed iterations of a run in ascending order.
+   */
+  private async listIterations(runDir: string): Promise<Array<number>> {
+    let files: Array<string>;
+    try {
+      files = await fs.readdir(runDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files
+      .map(file => /^iteration-(\d+)\.json$/.exec(file)?.[1])
+      .filter((match): match is string => match !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+}
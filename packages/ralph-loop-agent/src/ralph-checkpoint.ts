@@ -0,0 +1,109 @@
+import type { LanguageModelUsage } from 'ai';
+import type { ModelMessage } from '@ai-sdk/provider-utils';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+import type { RalphContextState } from './ralph-context-manager';
+import type { RalphEscalationState } from './ralph-escalation';
+import type { RalphTask } from './ralph-tasks';
+import type { RalphLoopAgentResult } from './ralph-loop-agent';
+
+/**
+ * Current checkpoint format version.
+ */
+export const RALPH_CHECKPOINT_VERSION = 1;
+
+/**
+ * JSON-serializable snapshot of a Ralph loop, written after each iteration.
+ *
+ * Pass it to `RalphLoopAgent.resume()` to continue the loop in a new process.
+ * Per-iteration `GenerateTextResult` objects are not part of the snapshot,
+ * so a resumed run only reports results from iterations it executed itself.
+ */
+export interface RalphLoopCheckpoint {
+  /**
+   * Checkpoint format version.
+   */
+  version: typeof RALPH_CHECKPOINT_VERSION;
+
+  /**
+   * The id of the agent that wrote the checkpoint (if set).
+   */
+  agentId?: string;
+
+  /**
+   * The run this checkpoint belongs to (set when a checkpoint store is used).
+   */
+  runId?: string;
+
+  /**
+   * The original prompt/task.
+   */
+  prompt: string;
+
+  /**
+   * The last completed iteration (1-indexed).
+   */
+  iteration: number;
+
+  /**
+   * Conversation history after the iteration, including verification feedback.
+   * Does not include system messages or the initial prompt.
+   */
+  messages: Array<ModelMessage>;
+
+  /**
+   * Aggregated token usage across all completed iterations.
+   */
+  totalUsage: LanguageModelUsage;
+
+  /**
+   * Token usage per model id (keeps cost calculations correct with model fallbacks).
+   */
+  usageByModel?: Record<string, LanguageModelUsage>;
+
+  /**
+   * Token usage of each model call per model id (for pricing with tiers).
+   */
+  callUsageByModel?: Record<string, Array<LanguageModelUsage>>;
+
+  /**
+   * The verification result of the last iteration (if verifyCompletion ran).
+   */
+  verification?: VerifyCompletionResult;
+
+  /**
+   * Context manager state (if context management is enabled).
+   */
+  contextState?: RalphContextState;
+
+  /**
+   * Escalation state (if an escalation policy is set).
+   */
+  escalation?: RalphEscalationState;
+
+  /**
+   * The task checklist (checklist mode).
+   */
+  tasks?: Array<RalphTask>;
+
+  /**
+   * The agent's progress notes (fresh-context mode).
+   */
+  notes?: string;
+
+  /**
+   * Set when the loop stopped after this iteration.
+   */
+  completionReason?: RalphLoopAgentResult['completionReason'];
+
+  /**
+   * When the checkpoint was created (ms since epoch).
+   */
+  createdAt: number;
+}
+
+/**
+ * Callback that persists a checkpoint after each iteration.
+ */
+export type CheckpointFunction = (
+  checkpoint: RalphLoopCheckpoint,
+) => void | Promise<void>;
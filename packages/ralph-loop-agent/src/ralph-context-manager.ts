@@ -1,6 +1,12 @@
 import type { ModelMessage, AssistantModelMessage, ToolResultPart } from '@ai-sdk/provider-utils';
-import type { LanguageModel, GenerateTextResult, ToolSet } from 'ai';
+import type { LanguageModel, LanguageModelUsage, GenerateTextResult, ToolSet } from 'ai';
 import { generateText } from 'ai';
+import type { RalphTaskList } from './ralph-tasks';
+import {
+  estimateMessageTokens,
+  heuristicTokenCounter,
+  type TokenCounter,
+} from './ralph-token-counter';
 
 /**
  * Configuration for context management.
@@ -42,6 +48,17 @@ export interface RalphContextConfig {
    * Model to use for summarization (optional, uses main model if not provided).
    */
   summarizationModel?: LanguageModel;
+
+  /**
+   * Counts tokens for the budgets (default: a character-based heuristic).
+   * Use `createBpeTokenCounter()` for exact counts.
+   *
+   * @example
+   * ```ts
+   * tokenCounter: await createBpeTokenCounter('o200k_base')
+   * ```
+   */
+  tokenCounter?: TokenCounter;
 }
 
 /**
@@ -80,35 +97,23 @@ export interface IterationSummary {
 }
 
 /**
- * Rough token estimation (4 chars ≈ 1 token for English text).
- * This is intentionally conservative.
+ * Serializable snapshot of a RalphContextManager's tracked state.
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 3.5);
+export interface RalphContextState {
+  trackedFiles: TrackedFile[];
+  changeLog: ChangeLogEntry[];
+  iterationSummaries: IterationSummary[];
+  currentIteration: number;
 }
 
 /**
- * Estimate tokens for a ModelMessage.
+ * Wrap context sections in the auto-managed context block.
  */
-export function estimateMessageTokens(message: ModelMessage): number {
-  if (typeof message.content === 'string') {
-    return estimateTokens(message.content);
-  }
-  if (Array.isArray(message.content)) {
-    return message.content.reduce((sum, part) => {
-      if ('text' in part && typeof part.text === 'string') {
-        return sum + estimateTokens(part.text);
-      }
-      if ('result' in part) {
-        const result = typeof part.result === 'string' 
-          ? part.result 
-          : JSON.stringify(part.result);
-        return sum + estimateTokens(result);
-      }
-      return sum + 100; // Default estimate for other parts
-    }, 0);
+export function formatContextInjection(parts: string[]): string {
+  if (parts.length === 0) {
+    return '';
   }
-  return 100;
+  return `\n\n---\n## Agent Context (Auto-managed)\n\n${parts.join('\n\n')}`;
 }
 
 /**
@@ -127,6 +132,7 @@ export class RalphContextManager {
   private changeLog: ChangeLogEntry[] = [];
   private iterationSummaries: IterationSummary[] = [];
   private currentIteration: number = 0;
+  private taskList: RalphTaskList | null = null;
 
   constructor(config: RalphContextConfig = {}) {
     this.config = {
@@ -137,9 +143,24 @@ export class RalphContextManager {
       enableSummarization: config.enableSummarization ?? true,
       recentIterationsToKeep: config.recentIterationsToKeep ?? 2,
       summarizationModel: config.summarizationModel,
+      tokenCounter: config.tokenCounter ?? heuristicTokenCounter,
     };
   }
 
+  /**
+   * Count the tokens of a text with the configured token counter.
+   */
+  countTokens(text: string): number {
+    return this.config.tokenCounter.countTokens(text);
+  }
+
+  /**
+   * Count the tokens of a message with the configured token counter.
+   */
+  countMessageTokens(message: ModelMessage): number {
+    return estimateMessageTokens(message, this.config.tokenCounter);
+  }
+
   /**
    * Get the current token budget status.
    */
@@ -156,7 +177,7 @@ export class RalphContextManager {
       .reduce((sum, f) => sum + f.estimatedTokens, 0);
     
     const changeLogTokens = this.changeLog
-      .reduce((sum, e) => sum + estimateTokens(e.summary) + estimateTokens(e.details ?? ''), 0);
+      .reduce((sum, e) => sum + this.countTokens(e.summary) + this.countTokens(e.details ?? ''), 0);
     
     const summariesTokens = this.iterationSummaries
       .reduce((sum, s) => sum + s.estimatedTokens, 0);
@@ -174,6 +195,13 @@ export class RalphContextManager {
     };
   }
 
+  /**
+   * Set the task checklist whose remaining items are injected (checklist mode).
+   */
+  setTaskList(taskList: RalphTaskList | null): void {
+    this.taskList = taskList;
+  }
+
   /**
    * Set the current iteration number.
    */
@@ -239,7 +267,7 @@ export class RalphContextManager {
       }
     }
 
-    const estimatedTokens = estimateTokens(finalContent);
+    const estimatedTokens = this.countTokens(finalContent);
 
     // Evict old files if over budget
     this.evictFilesIfNeeded(estimatedTokens);
@@ -283,7 +311,7 @@ export class RalphContextManager {
     const existing = this.trackedFiles.get(path);
     if (existing) {
       existing.content = existing.content.replace(oldString, newString);
-      existing.estimatedTokens = estimateTokens(existing.content);
+      existing.estimatedTokens = this.countTokens(existing.content);
       existing.lastAccessed = Date.now();
     }
 
@@ -352,12 +380,13 @@ export class RalphContextManager {
 
   /**
    * Summarize an iteration's messages for future context.
+   * Also returns the token usage of the summarization call.
    */
   async summarizeIteration(
     iteration: number,
     messages: ModelMessage[],
     model: LanguageModel
-  ): Promise<IterationSummary> {
+  ): Promise<IterationSummary & { usage?: LanguageModelUsage }> {
     // Extract tool calls and results
     const toolsUsed: string[] = [];
     const filesModified: string[] = [];
@@ -387,6 +416,7 @@ export class RalphContextManager {
     }).join('\n');
 
     let summary: string;
+    let usage: LanguageModelUsage | undefined;
     
     try {
       const result = await generateText({
@@ -404,6 +434,7 @@ export class RalphContextManager {
         maxOutputTokens: 200,
       });
       summary = result.text;
+      usage = result.totalUsage;
     } catch {
       // Fallback to simple summary
       summary = `Iteration ${iteration}: Used ${toolsUsed.length} tools (${toolsUsed.slice(0, 5).join(', ')}${toolsUsed.length > 5 ? '...' : ''}). Modified ${filesModified.length} files.`;
@@ -414,11 +445,11 @@ export class RalphContextManager {
       summary,
       toolsUsed: [...new Set(toolsUsed)],
       filesModified: [...new Set(filesModified)],
-      estimatedTokens: estimateTokens(summary),
+      estimatedTokens: this.countTokens(summary),
     };
 
     this.iterationSummaries.push(iterationSummary);
-    return iterationSummary;
+    return { ...iterationSummary, usage };
   }
 
   /**
@@ -444,6 +475,8 @@ export class RalphContextManager {
   buildContextInjection(): string {
     const parts: string[] = [];
 
+    if (this.taskList) parts.push(this.taskList.buildContext());
+
     const summaries = this.getIterationSummariesContext();
     if (summaries) parts.push(summaries);
 
@@ -453,11 +486,7 @@ export class RalphContextManager {
     // Note: File context is usually handled by tools, not injected
     // But we track it for budget management
 
-    if (parts.length === 0) {
-      return '';
-    }
-
-    return `\n\n---\n## Agent Context (Auto-managed)\n\n${parts.join('\n\n')}`;
+    return formatContextInjection(parts);
   }
 
   /**
@@ -472,6 +501,8 @@ export class RalphContextManager {
   ): Promise<{
     messages: ModelMessage[];
     summarized: boolean;
+    /** Token usage of the summarization call, if one was made. */
+    summarizationUsage?: LanguageModelUsage;
   }> {
     this.setIteration(iteration);
 
@@ -482,7 +513,7 @@ export class RalphContextManager {
 
     // Check if we need to summarize
     const totalTokens = currentMessages.reduce(
-      (sum, m) => sum + estimateMessageTokens(m), 
+      (sum, m) => sum + this.countMessageTokens(m), 
       0
     );
 
@@ -496,14 +527,15 @@ export class RalphContextManager {
     // We need to compress! Summarize older iterations
     // Find the boundary between "old" and "recent" messages
     const messagesFromPreviousIteration = previousResult?.response.messages ?? [];
+    let summarizationUsage: LanguageModelUsage | undefined;
     
     if (messagesFromPreviousIteration.length > 0) {
       // Summarize the previous iteration
-      await this.summarizeIteration(
+      ({ usage: summarizationUsage } = await this.summarizeIteration(
         iteration - 1,
         messagesFromPreviousIteration,
         model
-      );
+      ));
     }
 
     // Keep only recent messages
@@ -517,6 +549,7 @@ export class RalphContextManager {
     return {
       messages: recentMessages,
       summarized: true,
+      summarizationUsage,
     };
   }
 
@@ -549,7 +582,7 @@ export class RalphContextManager {
    */
   private trimChangeLog(): void {
     const currentTokens = this.changeLog
-      .reduce((sum, e) => sum + estimateTokens(e.summary) + estimateTokens(e.details ?? ''), 0);
+      .reduce((sum, e) => sum + this.countTokens(e.summary) + this.countTokens(e.details ?? ''), 0);
 
     if (currentTokens <= this.config.changeLogBudget) {
       return;
@@ -558,12 +591,45 @@ export class RalphContextManager {
     // Remove oldest entries
     while (this.changeLog.length > 0) {
       const tokens = this.changeLog
-        .reduce((sum, e) => sum + estimateTokens(e.summary) + estimateTokens(e.details ?? ''), 0);
+        .reduce((sum, e) => sum + this.countTokens(e.summary) + this.countTokens(e.details ?? ''), 0);
       if (tokens <= this.config.changeLogBudget) break;
       this.changeLog.shift();
     }
   }
 
+  /**
+   * Export the tracked state as a JSON-serializable snapshot.
+   */
+  getState(): RalphContextState {
+    return {
+      trackedFiles: Array.from(this.trackedFiles.values()).map(f => ({
+        ...f,
+        lineRange: f.lineRange ? { ...f.lineRange } : undefined,
+      })),
+      changeLog: this.changeLog.map(e => ({ ...e })),
+      iterationSummaries: this.iterationSummaries.map(s => ({
+        ...s,
+        toolsUsed: [...s.toolsUsed],
+        filesModified: [...s.filesModified],
+      })),
+      currentIteration: this.currentIteration,
+    };
+  }
+
+  /**
+   * Replace the tracked state with a snapshot from getState().
+   */
+  restoreState(state: RalphContextState): void {
+    this.trackedFiles = new Map(state.trackedFiles.map(f => [f.path, { ...f }]));
+    this.changeLog = state.changeLog.map(e => ({ ...e }));
+    this.iterationSummaries = state.iterationSummaries.map(s => ({
+      ...s,
+      toolsUsed: [...s.toolsUsed],
+      filesModified: [...s.filesModified],
+    }));
+    this.currentIteration = state.currentIteration;
+  }
+
   /**
    * Clear all tracked state.
    */
@@ -0,0 +1,53 @@
+import type { LanguageModel } from 'ai';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+
+/**
+ * Policy for moving between models based on verification results.
+ */
+export interface RalphEscalationPolicy {
+  /**
+   * Models ordered from cheapest to strongest. Loops start on the first one.
+   */
+  models: Array<LanguageModel | string>;
+
+  /**
+   * Move up one model after this many verification failures in a row
+   * on the current model. Default: 2
+   */
+  escalateAfter?: number;
+
+  /**
+   * Move down one model after a loop ends verified, so the next loop
+   * on the same agent starts cheaper again. Default: true
+   */
+  deescalateOnSuccess?: boolean;
+}
+
+/**
+ * Where a loop stands in its escalation policy. Stored in checkpoints.
+ */
+export interface RalphEscalationState {
+  /** Index into `RalphEscalationPolicy.models`. */
+  tier: number;
+  /** Verification failures in a row on the current tier. */
+  failedVerifications: number;
+}
+
+/**
+ * Update the escalation state after a verification.
+ */
+export function updateEscalationState(
+  policy: RalphEscalationPolicy,
+  state: RalphEscalationState,
+  verification: VerifyCompletionResult
+): RalphEscalationState {
+  if (verification.complete) {
+    return { ...state, failedVerifications: 0 };
+  }
+
+  const failedVerifications = state.failedVerifications + 1;
+  if (failedVerifications >= (policy.escalateAfter ?? 2) && state.tier < policy.models.length - 1) {
+    return { tier: state.tier + 1, failedVerifications: 0 };
+  }
+  return { ...state, failedVerifications };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { iterationCountIs } from './ralph-stop-condition';
+import { createMockUsage, textResponse, toolCallResponse } from './test-utils';
+
+// Calls the read tool twice in one step, then answers with text;
+// summarization calls get a summary
+const createModel = () => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    modelId: 'anthropic/claude-haiku-4.5',
+    doGenerate: async ({ prompt }) => {
+      if (JSON.stringify(prompt).includes('Summarize this agent iteration')) {
+        return textResponse('Read two files');
+      }
+      if (++call % 2 === 1) {
+        return toolCallResponse(
+          ['a.ts', 'b.ts'].map(path => ({
+            toolName: 'readFile',
+            input: { path },
+            toolCallId: `call-${call}-${path}`,
+          })),
+          createMockUsage(4)
+        );
+      }
+      return textResponse('Done reading');
+    },
+  });
+};
+
+const readFile = tool({
+  inputSchema: z.object({ path: z.string() }),
+  execute: async ({ path }) => ({ content: `// ${path}` }),
+});
+
+describe('iterationStats', () => {
+  it('should report usage, cost, steps, tool calls and verification per iteration', async () => {
+    const agent = new RalphLoopAgent({
+      model: createModel(),
+      tools: { readFile },
+      stopWhen: iterationCountIs(3),
+      verifyCompletion: ({ iteration }) =>
+        iteration === 1 ? { complete: false, reason: 'Keep going' } : { complete: true },
+    });
+
+    const result = await agent.loop({ prompt: 'Read the files' });
+
+    expect(result.iterationStats).toHaveLength(2);
+    const [first, second] = result.iterationStats;
+    expect(first).toMatchObject({
+      iteration: 1,
+      model: 'anthropic/claude-haiku-4.5',
+      cacheReadTokens: 4,
+      cacheWriteTokens: 0,
+      steps: 2,
+      toolCalls: { readFile: 2 },
+      verification: { complete: false, reason: 'Keep going' },
+    });
+    expect(first!.usage.totalTokens).toBe(60);
+    // 16 uncached and 4 cached input tokens, 40 output tokens at Haiku 4.5 rates
+    expect(first!.cost).toBeCloseTo((16 * 1 + 4 * 0.1 + 40 * 5) / 1_000_000);
+    expect(first!.duration).toBeGreaterThanOrEqual(0);
+    expect(first!.summarizationUsage).toBeUndefined();
+    expect(second!.verification).toEqual({ complete: true });
+    // Every step is a priced model call
+    expect(result.callUsageByModel?.['anthropic/claude-haiku-4.5']).toHaveLength(4);
+  });
+
+  it('should count summarization calls separately', async () => {
+    const model = createModel();
+    const agent = new RalphLoopAgent({
+      model,
+      tools: { readFile },
+      stopWhen: iterationCountIs(2),
+      verifyCompletion: () => ({ complete: false }),
+      contextManagement: { maxContextTokens: 10, recentIterationsToKeep: 1 },
+    });
+
+    const result = await agent.loop({ prompt: 'Read the files' });
+
+    const second = result.iterationStats[1]!;
+    expect(second.summarizationUsage?.totalTokens).toBe(30);
+    expect(second.summarizationCost).toBeGreaterThan(0);
+    expect(second.usage.totalTokens).toBe(60);
+    // The summarization counts toward the totals
+    expect(result.totalUsage.totalTokens).toBe(150);
+  });
+});
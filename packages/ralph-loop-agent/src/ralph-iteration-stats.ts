@@ -0,0 +1,87 @@
+import type { GenerateTextResult, LanguageModelUsage, ToolSet } from 'ai';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+import { calculateCost, getModelPricing } from './ralph-pricing';
+import { aggregateStepUsage } from './ralph-stop-condition';
+
+/**
+ * Usage, cost and outcome of one iteration.
+ */
+export interface RalphIterationStats {
+  /** The iteration number (1-indexed). */
+  iteration: number;
+  /** The id of the model that ran the iteration. */
+  model: string;
+  /** Token usage of the iteration's model calls, summed over its steps. */
+  usage: LanguageModelUsage;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Cost of `usage` in USD; undefined if there is no pricing for the model. */
+  cost?: number;
+  /** Duration in milliseconds. */
+  duration: number;
+  /** Number of steps of the inner tool loop. */
+  steps: number;
+  /** Number of calls per tool name. */
+  toolCalls: Record<string, number>;
+  /**
+   * Usage of the context summarization before the iteration (context
+   * management), not included in `usage`.
+   */
+  summarizationUsage?: LanguageModelUsage;
+  /** Cost of `summarizationUsage` in USD, if there is pricing for the model. */
+  summarizationCost?: number;
+  /** The verification result (set once verification ran for the iteration). */
+  verification?: VerifyCompletionResult;
+}
+
+/**
+ * Cost of usage on a model, or undefined if there is no pricing for it.
+ */
+function getCost(
+  usage: LanguageModelUsage | Array<LanguageModelUsage>,
+  model: string
+): number | undefined {
+  const pricing = getModelPricing(model);
+  return pricing ? calculateCost(usage, pricing) : undefined;
+}
+
+/**
+ * Compute the stats of an iteration from its result.
+ */
+export function createIterationStats<TOOLS extends ToolSet>({
+  iteration,
+  model,
+  result,
+  duration,
+  summarization,
+}: {
+  iteration: number;
+  model: string;
+  result: GenerateTextResult<TOOLS, never>;
+  duration: number;
+  summarization?: { usage: LanguageModelUsage; model: string };
+}): RalphIterationStats {
+  const usage = aggregateStepUsage(result);
+
+  const toolCalls: Record<string, number> = {};
+  for (const step of result.steps) {
+    for (const toolCall of step.toolCalls) {
+      toolCalls[toolCall.toolName] = (toolCalls[toolCall.toolName] ?? 0) + 1;
+    }
+  }
+
+  return {
+    iteration,
+    model,
+    usage,
+    cacheReadTokens: usage.inputTokenDetails?.cacheReadTokens ?? 0,
+    cacheWriteTokens: usage.inputTokenDetails?.cacheWriteTokens ?? 0,
+    // Priced per step, so tiers apply to each model call
+    cost: getCost(result.steps.map(step => step.usage), model),
+    duration,
+    steps: result.steps.length,
+    toolCalls,
+    summarizationUsage: summarization?.usage,
+    summarizationCost: summarization && getCost([summarization.usage], summarization.model),
+  };
+}
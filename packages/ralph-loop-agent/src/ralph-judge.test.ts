@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { llmJudge } from './ralph-judge';
+import { iterationCountIs, tokenCountIs } from './ralph-stop-condition';
+import { createMockResult, textResponse, toolCallResponse } from './test-utils';
+
+const createAgentModel = () =>
+  new MockLanguageModelV3({
+    modelId: 'worker',
+    doGenerate: async () => textResponse('Work done'),
+  });
+
+// Judge that answers with the given verdict tool calls, one per review
+const createJudgeModel = (verdicts: Array<{ toolName: string; input: unknown }>) => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    modelId: 'judge',
+    doGenerate: async () => {
+      const verdict = verdicts[Math.min(call++, verdicts.length - 1)]!;
+      return toolCallResponse([{ ...verdict, toolCallId: `call-${call}` }]);
+    },
+  });
+};
+
+describe('llmJudge', () => {
+  it('should complete the loop when the judge approves', async () => {
+    const judgeModel = createJudgeModel([
+      { toolName: 'approveTask', input: { reason: 'All criteria met' } },
+    ]);
+
+    const agent = new RalphLoopAgent({
+      model: createAgentModel(),
+      verifyCompletion: llmJudge({ model: judgeModel, rubric: 'The work is done' }),
+    });
+
+    const result = await agent.loop({ prompt: 'Do the task' });
+
+    expect(result.completionReason).toBe('verified');
+    expect(result.reason).toBe('All criteria met');
+
+    const judgePrompt = JSON.stringify(judgeModel.doGenerateCalls[0]!.prompt);
+    expect(judgePrompt).toContain('The work is done');
+    expect(judgePrompt).toContain('Do the task');
+    expect(judgePrompt).toContain('Work done');
+  });
+
+  it('should send requested changes back as feedback', async () => {
+    const agentModel = createAgentModel();
+    const agent = new RalphLoopAgent({
+      model: agentModel,
+      stopWhen: iterationCountIs(5),
+      verifyCompletion: llmJudge({
+        model: createJudgeModel([
+          { toolName: 'requestChanges', input: { issues: ['Tests fail'], suggestions: ['Fix the parser'] } },
+          { toolName: 'approveTask', input: { reason: 'Fixed' } },
+        ]),
+        rubric: 'Tests pass',
+      }),
+    });
+
+    const result = await agent.loop({ prompt: 'Do the task' });
+
+    expect(result.iterations).toBe(2);
+    expect(result.completionReason).toBe('verified');
+    const secondPrompt = JSON.stringify(agentModel.doGenerateCalls[1]!.prompt);
+    expect(secondPrompt).toContain('- Tests fail');
+    expect(secondPrompt).toContain('- Fix the parser');
+  });
+
+  it('should reject when the judge gives no verdict', async () => {
+    const judgeModel = new MockLanguageModelV3({
+      doGenerate: async () => textResponse('Looks fine to me'),
+    });
+
+    const verification = await llmJudge({ model: judgeModel, rubric: 'Done' })({
+      result: createMockResult({ text: 'Work done' }),
+      iteration: 1,
+      allResults: [],
+      originalPrompt: 'Do the task',
+    });
+
+    expect(verification.complete).toBe(false);
+    expect(verification.reason).toContain('Looks fine to me');
+  });
+
+  it('should treat a verdict with invalid input as no verdict', async () => {
+    const verification = await llmJudge({
+      model: createJudgeModel([{ toolName: 'requestChanges', input: { issues: 'Tests fail' } }]),
+      rubric: 'Done',
+      maxSteps: 1,
+    })({
+      result: createMockResult({ text: 'Work done' }),
+      iteration: 1,
+      allResults: [],
+      originalPrompt: 'Do the task',
+    });
+
+    expect(verification).toEqual({ complete: false, reason: 'The judge did not give a verdict.' });
+  });
+
+  it('should pass the abort signal of the loop to the judge', async () => {
+    const controller = new AbortController();
+    const judgeModel = createJudgeModel([{ toolName: 'approveTask', input: { reason: 'Done' } }]);
+
+    await llmJudge({ model: judgeModel, rubric: 'Done' })({
+      result: createMockResult({ text: 'Work done' }),
+      iteration: 1,
+      allResults: [],
+      originalPrompt: 'Do the task',
+      abortSignal: controller.signal,
+    });
+    controller.abort();
+
+    expect(judgeModel.doGenerateCalls[0]!.abortSignal?.aborted).toBe(true);
+  });
+
+  it('should add judge usage to the loop usage and budgets', async () => {
+    const agent = new RalphLoopAgent({
+      model: createAgentModel(),
+      // 30 tokens per agent iteration and 30 per review
+      stopWhen: tokenCountIs(100),
+      verifyCompletion: llmJudge({
+        model: createJudgeModel([
+          { toolName: 'requestChanges', input: { issues: ['Not done'], suggestions: [] } },
+        ]),
+        rubric: 'Done',
+      }),
+    });
+
+    const result = await agent.loop({ prompt: 'Do the task' });
+
+    expect(result.completionReason).toBe('budget-exceeded');
+    expect(result.iterations).toBe(2);
+    expect(result.totalUsage.totalTokens).toBe(120);
+    expect(result.usageByModel['judge']?.totalTokens).toBe(60);
+    expect(result.usageByModel['worker']?.totalTokens).toBe(60);
+  });
+});
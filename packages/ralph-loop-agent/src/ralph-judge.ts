@@ -0,0 +1,156 @@
+import { generateText, stepCountIs, tool, type LanguageModel, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type {
+  VerifyCompletionContext,
+  VerifyCompletionFunction,
+  VerifyCompletionResult,
+} from './ralph-loop-agent-evaluator';
+
+/**
+ * Configuration for `llmJudge`.
+ */
+export interface LlmJudgeConfig {
+  /**
+   * The model that reviews the work.
+   */
+  model: LanguageModel;
+
+  /**
+   * What the work is judged against, e.g. success criteria or review guidelines.
+   */
+  rubric: string;
+
+  /**
+   * Tools the judge can use to inspect the work (read files, run tests, ...).
+   * The verdict tools `approveTask` and `requestChanges` are always added.
+   */
+  tools?: ToolSet;
+
+  /**
+   * Maximum steps the judge can take before it has to give a verdict. Default: 10
+   */
+  maxSteps?: number;
+
+  /**
+   * Build the review request sent to the judge. Defaults to the original
+   * task and the agent's response for the iteration.
+   */
+  prompt?: (context: VerifyCompletionContext<any>) => string;
+}
+
+const approveTaskInput = z.object({
+  reason: z.string().describe('Why the task is complete and meets the criteria'),
+});
+
+const requestChangesInput = z.object({
+  issues: z.array(z.string()).describe('Specific issues that need to be fixed'),
+  suggestions: z.array(z.string()).describe('Specific suggestions for the agent'),
+});
+
+/**
+ * Verdict tools of the judge. They have no execute function, so the
+ * judge's tool loop ends as soon as one is called.
+ */
+const verdictTools = {
+  approveTask: tool({
+    description: 'Approve the task as complete - all criteria of the rubric are met',
+    inputSchema: approveTaskInput,
+  }),
+  requestChanges: tool({
+    description: 'Request changes - the task is NOT complete or has issues',
+    inputSchema: requestChangesInput,
+  }),
+};
+
+/**
+ * Default review request: the task and the agent's response.
+ */
+function defaultJudgePrompt({ originalPrompt, result }: VerifyCompletionContext<any>): string {
+  return [
+    '## Task',
+    originalPrompt,
+    '',
+    "## Agent's response",
+    result.text || '(no text response)',
+    '',
+    'Review the work against the rubric and give your verdict.',
+  ].join('\n');
+}
+
+/**
+ * Verifier that lets a model review the work and approve it or request changes.
+ * The judge's token usage is added to the loop's usage, so budgets and
+ * `costIs` include it.
+ *
+ * @example
+ * ```ts
+ * verifyCompletion: llmJudge({
+ *   model: 'anthropic/claude-opus-4.5',
+ *   rubric: 'The type-check and tests pass. The public API is documented.',
+ *   tools: { runCommand, readFile },
+ * })
+ * ```
+ */
+export function llmJudge<TOOLS extends ToolSet = any>(
+  config: LlmJudgeConfig
+): VerifyCompletionFunction<TOOLS> {
+  const { model, rubric, tools = {}, maxSteps = 10, prompt = defaultJudgePrompt } = config;
+  const modelId = typeof model === 'string' ? model : (model.modelId ?? 'unknown');
+
+  return async context => {
+    const result = await generateText({
+      model,
+      tools: { ...tools, ...verdictTools },
+      toolChoice: 'required',
+      stopWhen: stepCountIs(maxSteps),
+      system: `You are a judge reviewing whether an agent completed its task. Use the available tools to check the work if needed, then call approveTask or requestChanges.
+
+## Rubric
+${rubric}`,
+      prompt: prompt(context),
+      abortSignal: context.abortSignal,
+    });
+
+    context.reportUsage?.(result.totalUsage, modelId, result.steps.map(step => step.usage));
+
+    const verdict = result.steps
+      .flatMap(step => step.toolCalls)
+      .filter(call => call.toolName === 'approveTask' || call.toolName === 'requestChanges')
+      .at(-1);
+
+    return parseVerdict(verdict, result.text);
+  };
+}
+
+/**
+ * Turn the judge's verdict tool call into a verification result.
+ * A verdict with invalid input counts as no verdict.
+ */
+function parseVerdict(
+  verdict: { toolName: string; input: unknown } | undefined,
+  text: string
+): VerifyCompletionResult {
+  const approval =
+    verdict?.toolName === 'approveTask' ? approveTaskInput.safeParse(verdict.input) : undefined;
+  if (approval?.success) {
+    return { complete: true, reason: approval.data.reason };
+  }
+
+  const changes =
+    verdict?.toolName === 'requestChanges' ? requestChangesInput.safeParse(verdict.input) : undefined;
+  if (changes?.success) {
+    const { issues, suggestions } = changes.data;
+    const lines = ['The judge requested changes.', '', 'Issues:', ...issues.map(issue => `- ${issue}`)];
+    if (suggestions.length > 0) {
+      lines.push('', 'Suggestions:', ...suggestions.map(suggestion => `- ${suggestion}`));
+    }
+    return { complete: false, reason: lines.join('\n') };
+  }
+
+  return {
+    complete: false,
+    reason: text
+      ? `The judge did not give a verdict. Its notes:\n${text}`
+      : 'The judge did not give a verdict.',
+  };
+}
@@ -1,4 +1,4 @@
-import type { GenerateTextResult, ToolSet } from 'ai';
+import type { GenerateTextResult, LanguageModelUsage, ToolSet } from 'ai';
 
 /**
  * Context passed to verifyCompletion.
@@ -23,6 +23,23 @@ export interface VerifyCompletionContext<TOOLS extends ToolSet = {}> {
    * The original prompt/task.
    */
   readonly originalPrompt: string;
+
+  /**
+   * The abort signal of the loop. Pass it on to model calls and commands
+   * the verifier runs, so aborting the loop stops them too.
+   */
+  readonly abortSignal?: AbortSignal;
+
+  /**
+   * Add tokens spent by the verifier (e.g. an LLM judge) to the loop's usage,
+   * so budgets and cost stop conditions include them. Pass the usage of each
+   * model call as `calls` if there were several (for pricing with tiers).
+   */
+  readonly reportUsage?: (
+    usage: LanguageModelUsage,
+    model: string,
+    calls?: Array<LanguageModelUsage>
+  ) => void;
 }
 
 /**
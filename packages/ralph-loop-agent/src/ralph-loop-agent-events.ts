@@ -0,0 +1,138 @@
+import type {
+  FinishReason,
+  GenerateTextResult,
+  LanguageModelUsage,
+  ToolSet,
+  TypedToolCall,
+  TypedToolResult,
+} from 'ai';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+import type { RalphErrorClass } from './ralph-retry';
+import type { RalphLoopAgentResult } from './ralph-loop-agent';
+import type { RalphIterationStats } from './ralph-iteration-stats';
+
+/**
+ * An iteration has started.
+ */
+export type RalphIterationStartEvent = {
+  readonly type: 'iteration-start';
+  readonly iteration: number;
+};
+
+/**
+ * A chunk of text was generated.
+ */
+export type RalphTextDeltaEvent = {
+  readonly type: 'text-delta';
+  readonly iteration: number;
+  readonly text: string;
+};
+
+/**
+ * The model called a tool.
+ */
+export type RalphToolCallEvent<TOOLS extends ToolSet = {}> = {
+  readonly type: 'tool-call';
+  readonly iteration: number;
+  readonly toolCall: TypedToolCall<TOOLS>;
+};
+
+/**
+ * A tool call produced a result.
+ */
+export type RalphToolResultEvent<TOOLS extends ToolSet = {}> = {
+  readonly type: 'tool-result';
+  readonly iteration: number;
+  readonly toolResult: TypedToolResult<TOOLS>;
+};
+
+/**
+ * A step of the inner tool loop finished.
+ */
+export type RalphStepFinishEvent = {
+  readonly type: 'step-finish';
+  readonly iteration: number;
+  readonly finishReason: FinishReason;
+  readonly usage: LanguageModelUsage;
+};
+
+/**
+ * An iteration finished (before verification).
+ */
+export type RalphIterationEndEvent<TOOLS extends ToolSet = {}> = {
+  readonly type: 'iteration-end';
+  readonly iteration: number;
+  readonly duration: number;
+  readonly model: string;
+  readonly result: GenerateTextResult<TOOLS, never>;
+  readonly stats: RalphIterationStats;
+};
+
+/**
+ * The model call, verification or a stop condition of an iteration failed.
+ * If `willRetry` is set, the iteration starts over and its text and tool
+ * events are emitted again.
+ */
+export type RalphIterationErrorEvent = {
+  readonly type: 'iteration-error';
+  readonly iteration: number;
+  readonly attempt: number;
+  readonly model: string;
+  readonly error: unknown;
+  readonly errorClass: RalphErrorClass;
+  readonly willRetry: boolean;
+};
+
+/**
+ * verifyCompletion returned a result.
+ */
+export type RalphVerificationEvent = {
+  readonly type: 'verification';
+  readonly iteration: number;
+  readonly verification: VerifyCompletionResult;
+};
+
+/**
+ * The escalation policy moved to a stronger model for the next iterations.
+ */
+export type RalphModelEscalatedEvent = {
+  readonly type: 'model-escalated';
+  readonly iteration: number;
+  readonly from: string;
+  readonly to: string;
+};
+
+/**
+ * Older iterations were summarized to stay within the context budget.
+ */
+export type RalphContextSummarizedEvent = {
+  readonly type: 'context-summarized';
+  readonly iteration: number;
+  readonly summarizedIterations: number;
+  readonly tokensSaved: number;
+};
+
+/**
+ * The loop stopped. The last event, unless the loop throws.
+ */
+export type RalphStopEvent<TOOLS extends ToolSet = {}, OUTPUT = never> = {
+  readonly type: 'stop';
+  readonly iteration: number;
+  readonly result: RalphLoopAgentResult<TOOLS, OUTPUT>;
+};
+
+/**
+ * Events emitted by `RalphLoopAgent.streamLoop()`.
+ */
+export type RalphLoopEvent<TOOLS extends ToolSet = {}, OUTPUT = never> =
+  | RalphIterationStartEvent
+  | RalphTextDeltaEvent
+  | RalphToolCallEvent<TOOLS>
+  | RalphToolResultEvent<TOOLS>
+  | RalphStepFinishEvent
+  | RalphIterationEndEvent<TOOLS>
+  | RalphIterationErrorEvent
+  | RalphVerificationEvent
+  | RalphModelEscalatedEvent
+  | RalphContextSummarizedEvent
+  | RalphStopEvent<TOOLS, OUTPUT>;
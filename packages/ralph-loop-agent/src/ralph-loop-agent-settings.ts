@@ -2,6 +2,7 @@ import type {
   LanguageModel,
   ToolSet,
   GenerateTextResult,
+  LanguageModelUsage,
   ToolChoice,
   StopCondition,
   PrepareStepFunction,
@@ -9,10 +10,26 @@ import type {
   TelemetrySettings,
   CallSettings,
 } from 'ai';
-import type { ProviderOptions, SystemModelMessage } from '@ai-sdk/provider-utils';
-import type { VerifyCompletionFunction } from './ralph-loop-agent-evaluator';
+import type {
+  FlexibleSchema,
+  ProviderOptions,
+  SystemModelMessage,
+  UserContent,
+} from '@ai-sdk/provider-utils';
+import type {
+  VerifyCompletionFunction,
+  VerifyCompletionResult,
+} from './ralph-loop-agent-evaluator';
 import type { RalphStopCondition } from './ralph-stop-condition';
 import type { RalphContextConfig, RalphContextManager } from './ralph-context-manager';
+import type { CheckpointFunction } from './ralph-checkpoint';
+import type { CheckpointStore } from './ralph-checkpoint-store';
+import type { RalphStallDetectionConfig } from './ralph-stall-detector';
+import type { RalphErrorClass, RalphRetryConfig } from './ralph-retry';
+import type { RalphEscalationPolicy } from './ralph-escalation';
+import type { RalphTaskInput } from './ralph-tasks';
+import type { RalphIterationStats } from './ralph-iteration-stats';
+import type { ApprovalRequestFunction, RequireApprovalFunction } from './ralph-approval';
 
 /**
  * Callback invoked at the start of each iteration.
@@ -38,16 +55,101 @@ export type OnIterationEndCallback<TOOLS extends ToolSet = {}> = (event: {
    */
   readonly duration: number;
 
+  /**
+   * The id of the model that ran the iteration.
+   */
+  readonly model: string;
+
   /**
    * The result of this iteration.
    */
   readonly result: GenerateTextResult<TOOLS, never>;
+
+  /**
+   * Usage, cost, steps and tool calls of this iteration. `verification` is
+   * set later, once the iteration has been verified.
+   */
+  readonly stats: RalphIterationStats;
+}) => void | Promise<void>;
+
+/**
+ * Builds the user message that starts every iteration after the first.
+ * Return text or message parts, or undefined to send no continuation message.
+ */
+export type ContinuationPromptFunction = (context: {
+  /**
+   * The iteration that is about to start (2 or higher).
+   */
+  readonly iteration: number;
+
+  /**
+   * The verification result of the previous iteration (if verifyCompletion ran).
+   */
+  readonly verification?: VerifyCompletionResult;
+
+  /**
+   * Aggregated token usage so far.
+   */
+  readonly totalUsage: LanguageModelUsage;
+}) => UserContent | undefined | Promise<UserContent | undefined>;
+
+/**
+ * Turns a rejected verification into the feedback message for the next iteration.
+ * Return text or message parts, or undefined to add no feedback.
+ */
+export type FormatFeedbackFunction = (context: {
+  /**
+   * The iteration that was verified.
+   */
+  readonly iteration: number;
+
+  /**
+   * The verification result (`complete` is false).
+   */
+  readonly verification: VerifyCompletionResult;
+}) => UserContent | undefined | Promise<UserContent | undefined>;
+
+/**
+ * Callback invoked when the model call, verification or a stop condition
+ * of an iteration fails.
+ */
+export type OnIterationErrorCallback = (event: {
+  /**
+   * The iteration number (1-indexed).
+   */
+  readonly iteration: number;
+
+  /**
+   * The attempt that failed (1 for the first try).
+   */
+  readonly attempt: number;
+
+  /**
+   * The id of the model that failed (or that ran the iteration).
+   */
+  readonly model: string;
+
+  /**
+   * The error that was thrown.
+   */
+  readonly error: unknown;
+
+  /**
+   * How the error was classified.
+   */
+  readonly errorClass: RalphErrorClass;
+
+  /**
+   * Whether the iteration will be retried. If not, the loop ends
+   * with completionReason 'error'.
+   */
+  readonly willRetry: boolean;
 }) => void | Promise<void>;
 
 /**
  * Configuration options for RalphLoopAgent.
  */
-export type RalphLoopAgentSettings<TOOLS extends ToolSet = {}> = Omit<
+export type RalphLoopAgentSettings<TOOLS extends ToolSet = {}, OUTPUT = never> = Omit<
   CallSettings,
   'abortSignal'
 > & {
@@ -65,8 +167,17 @@ export type RalphLoopAgentSettings<TOOLS extends ToolSet = {}> = Omit<
   /**
    * The language model to use.
    * Can be a LanguageModel object or an AI Gateway string (e.g., 'anthropic/claude-opus-4.5').
+   *
+   * Pass an ordered list to fall back to the next model when a model is
+   * overloaded or unavailable (retryable errors). Every iteration starts
+   * with the first model.
+   *
+   * @example
+   * ```ts
+   * model: ['anthropic/claude-opus-4.5', 'openai/gpt-5.1']
+   * ```
    */
-  model: LanguageModel | string;
+  model: LanguageModel | string | Array<LanguageModel | string>;
 
   /**
    * The tools that the model can call.
@@ -144,6 +255,19 @@ export type RalphLoopAgentSettings<TOOLS extends ToolSet = {}> = Omit<
    */
   onIterationEnd?: OnIterationEndCallback<NoInfer<TOOLS>>;
 
+  /**
+   * Called when the model call of an iteration fails, before it is retried,
+   * or when verification or a stop condition throws (never retried).
+   */
+  onIterationError?: OnIterationErrorCallback;
+
+  /**
+   * Called with errors that end the loop after stream() has handed the final
+   * stream to the caller (e.g. a throwing onIterationEnd), which stream()
+   * can no longer reject with. Logged with console.error if not set.
+   */
+  onError?: (error: unknown) => void | Promise<void>;
+
   /**
    * Additional provider-specific options.
    */
@@ -182,4 +306,180 @@ export type RalphLoopAgentSettings<TOOLS extends ToolSet = {}> = Omit<
     readonly summarizedIterations: number;
     readonly tokensSaved: number;
   }) => void | Promise<void>;
+
+  /**
+   * Called after each iteration with a JSON-serializable snapshot of the loop.
+   * Persist it and pass it to `agent.resume()` to continue after a crash.
+   *
+   * @example
+   * ```ts
+   * checkpoint: async (snapshot) => {
+   *   await fs.writeFile('ralph-checkpoint.json', JSON.stringify(snapshot));
+   * }
+   * ```
+   */
+  checkpoint?: CheckpointFunction;
+
+  /**
+   * Where to persist checkpoints after each iteration.
+   * Runs saved here can be listed with `store.listRuns()` and reopened
+   * with `agent.resume(runId)`.
+   *
+   * @example
+   * ```ts
+   * checkpointStore: new FileCheckpointStore('.ralph/runs'),
+   * ```
+   */
+  checkpointStore?: CheckpointStore;
+
+  /**
+   * The id under which checkpoints are stored.
+   * Defaults to a random id per loop() call.
+   */
+  runId?: string;
+
+  /**
+   * Detect repeated actions (same tool, input and outcome) across iterations
+   * and nudge the agent with a "you are repeating yourself" message in the
+   * next iteration. Disabled by default.
+   *
+   * To stop the loop instead, use the `repeatedActionsIs(n)` stop condition.
+   *
+   * @example
+   * ```ts
+   * stallDetection: { threshold: 3 }
+   * ```
+   */
+  stallDetection?: boolean | RalphStallDetectionConfig;
+
+  /**
+   * Retry failed iterations with exponential backoff.
+   *
+   * Errors are classified as retryable (rate limits, overload, 5xx, network),
+   * context-overflow (retried with the older half of the history dropped)
+   * or fatal. Without this setting no iteration is retried.
+   *
+   * When an iteration fails for good, the loop returns the iterations
+   * completed so far with completionReason 'error'.
+   *
+   * @example
+   * ```ts
+   * retry: { maxRetries: 5, initialDelayMs: 2_000 }
+   * ```
+   */
+  retry?: RalphRetryConfig;
+
+  /**
+   * Start on a cheap model and move to stronger ones when verifyCompletion
+   * keeps rejecting the work. The escalation models take precedence over
+   * `model`, which still serves as the fallback chain.
+   *
+   * @example
+   * ```ts
+   * escalation: {
+   *   models: ['anthropic/claude-haiku-4.5', 'anthropic/claude-sonnet-4.5', 'anthropic/claude-opus-4.5'],
+   *   escalateAfter: 2,
+   * }
+   * ```
+   */
+  escalation?: RalphEscalationPolicy;
+
+  /**
+   * The message that starts every iteration after the first.
+   * Default: 'Continue working on the task. The previous attempt was not complete.'
+   *
+   * @example
+   * ```ts
+   * continuationPrompt: ({ iteration, verification }) =>
+   *   `Pipeline run ${iteration}. Last check: ${verification?.reason ?? 'none'}. Fix the failing stage first.`
+   * ```
+   */
+  continuationPrompt?: ContinuationPromptFunction;
+
+  /**
+   * The feedback message added after a rejected verification.
+   * Default: `Feedback: ${reason}` (nothing if there is no reason).
+   */
+  formatFeedback?: FormatFeedbackFunction;
+
+  /**
+   * Schema for a structured final output. The model is asked to answer with
+   * JSON matching the schema, and the loop keeps iterating until the final
+   * text of an iteration parses against it. Parse errors are sent back as
+   * verification feedback. If `verifyCompletion` is set as well, it runs
+   * once the output parses.
+   *
+   * The parsed value is available as `output` on the result.
+   *
+   * @example
+   * ```ts
+   * output: z.object({
+   *   migratedTables: z.array(z.string()),
+   *   warnings: z.array(z.string()),
+   * })
+   * ```
+   */
+  output?: FlexibleSchema<OUTPUT>;
+
+  /**
+   * Checklist mode: the agent works through a list of tasks and ticks them off
+   * with the `updateTask` and `addTask` tools. The remaining tasks are shown
+   * to it before every iteration, and the loop is only complete once all tasks
+   * are done (and `verifyCompletion`, if set, passes).
+   *
+   * Pass the tasks, or `'from-prompt'` to extract them from the checkboxes or
+   * list items in the prompt. The result reports the status of every task.
+   *
+   * @example
+   * ```ts
+   * tasks: ['Add the users table', 'Backfill existing rows', 'Drop the legacy table']
+   * ```
+   */
+  tasks?: Array<RalphTaskInput> | 'from-prompt';
+
+  /**
+   * How the conversation carries over between iterations:
+   * - `accumulate`: every iteration continues the conversation of the previous
+   *   ones (summarized by context management, if enabled)
+   * - `fresh`: every iteration starts from a clean context with only the system
+   *   messages, the prompt, the agent's progress notes and the latest
+   *   verification feedback. The agent writes the notes with the `updateNotes`
+   *   tool, and the result reports them as `notes`.
+   *
+   * Default: `'accumulate'`
+   *
+   * @example
+   * ```ts
+   * contextStrategy: 'fresh'
+   * ```
+   */
+  contextStrategy?: 'accumulate' | 'fresh';
+
+  /**
+   * Decides which tool calls need approval before they run (e.g. destructive
+   * shell commands). Matching calls wait for `onApprovalRequest`; without it,
+   * they are denied.
+   *
+   * @example
+   * ```ts
+   * requireApproval: ({ toolName, input }) =>
+   *   toolName === 'runCommand' && /rm -rf|git push/.test((input as { command: string }).command)
+   * ```
+   */
+  requireApproval?: RequireApprovalFunction;
+
+  /**
+   * Called for every tool call that needs approval. It can approve the call,
+   * deny it with a reason (which the model gets as the tool result), or run
+   * it with an edited input.
+   *
+   * @example
+   * ```ts
+   * onApprovalRequest: async ({ toolName, input }) =>
+   *   (await confirm(`Run ${toolName} with ${JSON.stringify(input)}?`))
+   *     ? { action: 'approve' }
+   *     : { action: 'deny', reason: 'Not allowed, find another way' }
+   * ```
+   */
+  onApprovalRequest?: ApprovalRequestFunction;
 };
@@ -1,12 +1,17 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { MockLanguageModelV3, convertArrayToReadableStream } from 'ai/test';
+import { APICallError, tool } from 'ai';
+import { z } from 'zod';
 import { RalphLoopAgent, iterationCountIs } from './ralph-loop-agent';
+import type { RalphLoopCheckpoint } from './ralph-checkpoint';
+import type { RalphLoopEvent } from './ralph-loop-agent-events';
+import { FileCheckpointStore, InMemoryCheckpointStore } from './ralph-checkpoint-store';
+import { costIs, namedStopCondition, tokenCountIs } from './ralph-stop-condition';
+import { createMockUsage, streamResponse, textResponse } from './test-utils';
 
-// Helper to create mock usage object with all required fields
-const createMockUsage = () => ({
-  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
-  outputTokens: { total: 20, text: 20, reasoning: undefined },
-});
 
 describe('RalphLoopAgent', () => {
   describe('loop', () => {
@@ -224,6 +229,80 @@ describe('RalphLoopAgent', () => {
     });
   });
 
+  describe('continuation and feedback prompts', () => {
+    const createModel = () =>
+      new MockLanguageModelV3({
+        doGenerate: async () => ({
+          content: [{ type: 'text', text: 'Response' }],
+          finishReason: { unified: 'stop', raw: 'stop' },
+          usage: createMockUsage(),
+          warnings: [],
+        }),
+      });
+
+    const getUserTexts = (mockModel: MockLanguageModelV3, callIndex: number) =>
+      mockModel.doGenerateCalls[callIndex]!.prompt
+        .filter(message => message.role === 'user')
+        .flatMap(message => message.content)
+        .map(part => (part.type === 'text' ? part.text : part.type));
+
+    it('should use the default prompts', async () => {
+      const mockModel = createModel();
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        verifyCompletion: () => ({ complete: false, reason: 'Stage 3 failed' }),
+      });
+
+      await agent.loop({ prompt: 'Repair the pipeline' });
+
+      expect(getUserTexts(mockModel, 1)).toEqual([
+        'Repair the pipeline',
+        'Feedback: Stage 3 failed',
+        'Continue working on the task. The previous attempt was not complete.',
+      ]);
+    });
+
+    it('should use custom continuation and feedback prompts', async () => {
+      const mockModel = createModel();
+      const continuationPrompt = vi.fn(({ iteration, verification }) => [
+        { type: 'text' as const, text: `Run ${iteration}: ${verification?.reason}` },
+      ]);
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        verifyCompletion: () => ({ complete: false, reason: 'Stage 3 failed' }),
+        continuationPrompt,
+        formatFeedback: ({ verification }) => `Checker says: ${verification.reason}`,
+      });
+
+      await agent.loop({ prompt: 'Repair the pipeline' });
+
+      expect(getUserTexts(mockModel, 1)).toEqual([
+        'Repair the pipeline',
+        'Checker says: Stage 3 failed',
+        'Run 2: Stage 3 failed',
+      ]);
+      expect(continuationPrompt).toHaveBeenCalledTimes(1);
+      expect(continuationPrompt.mock.calls[0]![0].totalUsage.totalTokens).toBe(30);
+    });
+
+    it('should skip messages when the prompt functions return nothing', async () => {
+      const mockModel = createModel();
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        verifyCompletion: () => ({ complete: false, reason: 'Stage 3 failed' }),
+        continuationPrompt: () => undefined,
+        formatFeedback: () => undefined,
+      });
+
+      await agent.loop({ prompt: 'Repair the pipeline' });
+
+      expect(getUserTexts(mockModel, 1)).toEqual(['Repair the pipeline']);
+    });
+  });
+
   describe('verifyCompletion', () => {
     it('should support async verification', async () => {
       const mockModel = new MockLanguageModelV3({
@@ -277,6 +356,197 @@ describe('RalphLoopAgent', () => {
     });
   });
 
+  describe('checkpoint', () => {
+    it('should write a serializable checkpoint after every iteration', async () => {
+      const checkpoints: RalphLoopCheckpoint[] = [];
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Working'),
+      });
+
+      const agent = new RalphLoopAgent({
+        id: 'checkpoint-agent',
+        model: mockModel,
+        stopWhen: iterationCountIs(5),
+        verifyCompletion: ({ iteration }) =>
+          iteration >= 2
+            ? { complete: true, reason: 'Done' }
+            : { complete: false, reason: 'Keep going' },
+        checkpoint: snapshot => {
+          checkpoints.push(JSON.parse(JSON.stringify(snapshot)));
+        },
+      });
+
+      await agent.loop({ prompt: 'Do something' });
+
+      expect(checkpoints).toHaveLength(2);
+      expect(checkpoints[0]).toMatchObject({
+        agentId: 'checkpoint-agent',
+        prompt: 'Do something',
+        iteration: 1,
+        verification: { complete: false, reason: 'Keep going' },
+        totalUsage: { inputTokens: 10, outputTokens: 20 },
+      });
+      expect(checkpoints[0]!.completionReason).toBeUndefined();
+      expect(checkpoints[0]!.messages.at(-1)).toEqual({
+        role: 'user',
+        content: [{ type: 'text', text: 'Feedback: Keep going' }],
+      });
+      expect(checkpoints[1]).toMatchObject({
+        iteration: 2,
+        completionReason: 'verified',
+        totalUsage: { inputTokens: 20, outputTokens: 40 },
+      });
+    });
+
+    it('should resume from a checkpoint', async () => {
+      const checkpoints: RalphLoopCheckpoint[] = [];
+      const capturedPrompts: unknown[] = [];
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async options => {
+          capturedPrompts.push(options.prompt);
+          return textResponse('Working');
+        },
+      });
+
+      const first = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        verifyCompletion: () => ({ complete: false, reason: 'Not yet' }),
+        contextManagement: {},
+        checkpoint: snapshot => {
+          checkpoints.push(JSON.parse(JSON.stringify(snapshot)));
+        },
+      });
+      await first.loop({ prompt: 'Migrate' });
+
+      const snapshot = checkpoints[0]!;
+      expect(snapshot.contextState?.changeLog).toHaveLength(1);
+
+      capturedPrompts.length = 0;
+      const second = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(5),
+        verifyCompletion: ({ iteration }) => ({ complete: iteration >= 3 }),
+        contextManagement: {},
+      });
+      const result = await second.resume(snapshot);
+
+      expect(result.completionReason).toBe('verified');
+      expect(result.iterations).toBe(3);
+      expect(result.allResults).toHaveLength(2);
+      expect(result.totalUsage.inputTokens).toBe(30);
+
+      const resumedPrompt = capturedPrompts[0] as Array<{ role: string; content: unknown }>;
+      expect(resumedPrompt[0]).toMatchObject({ role: 'system' });
+      expect(JSON.stringify(resumedPrompt)).toContain('Feedback: Not yet');
+      expect(JSON.stringify(resumedPrompt)).toContain('Verification feedback received');
+    });
+
+    it('should save to a checkpoint store and resume by run id', async () => {
+      const store = new InMemoryCheckpointStore();
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Working'),
+      });
+
+      const first = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        checkpointStore: store,
+      });
+      const firstResult = await first.loop({ prompt: 'Migrate' });
+
+      expect(firstResult.runId).toEqual(expect.any(String));
+      const runs = await store.listRuns();
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({
+        runId: firstResult.runId,
+        iteration: 2,
+        completionReason: 'max-iterations',
+      });
+
+      const second = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(3),
+        checkpointStore: store,
+      });
+      const result = await second.resume(firstResult.runId!);
+
+      expect(result.runId).toBe(firstResult.runId);
+      expect(result.iterations).toBe(3);
+      expect((await store.load(firstResult.runId!))?.iteration).toBe(3);
+    });
+
+    it('should store a resumed checkpoint without run id under a new run id', async () => {
+      const checkpoints: RalphLoopCheckpoint[] = [];
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Working'),
+      });
+      await new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(1),
+        checkpoint: snapshot => {
+          checkpoints.push(snapshot);
+        },
+      }).loop({ prompt: 'Migrate' });
+      expect(checkpoints[0]!.runId).toBeUndefined();
+
+      const store = new InMemoryCheckpointStore();
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        checkpointStore: store,
+      });
+      const result = await agent.resume(checkpoints[0]!);
+
+      expect(result.runId).toEqual(expect.any(String));
+      expect((await store.load(result.runId!))?.iteration).toBe(2);
+    });
+
+    it('should apply call-level stop conditions when resuming', async () => {
+      const store = new InMemoryCheckpointStore();
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Working'),
+      });
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(10),
+        checkpointStore: store,
+      });
+      const { runId } = await agent.loop({ prompt: 'Migrate', stopWhen: iterationCountIs(1) });
+
+      const resumed = await agent.resume(runId!, { stopWhen: iterationCountIs(2) });
+      expect(resumed.iterations).toBe(2);
+
+      const started = await agent.start({ checkpoint: runId!, stopWhen: iterationCountIs(3) }).result;
+      expect(started.iterations).toBe(3);
+    });
+
+    it('should require a checkpoint store to resume by run id', async () => {
+      const agent = new RalphLoopAgent({ model: new MockLanguageModelV3() });
+      await expect(agent.resume('run-a')).rejects.toThrow('requires a checkpointStore');
+    });
+
+    it('should reject checkpoints with an unknown version', async () => {
+      // Written by a newer version of the package
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-checkpoints-'));
+      await fs.mkdir(path.join(directory, 'run-a'));
+      await fs.writeFile(
+        path.join(directory, 'run-a', 'iteration-0001.json'),
+        JSON.stringify({ version: 99, prompt: 'x', iteration: 1, messages: [], createdAt: 0 }),
+      );
+      const agent = new RalphLoopAgent({
+        model: new MockLanguageModelV3(),
+        checkpointStore: new FileCheckpointStore(directory),
+      });
+
+      try {
+        await expect(agent.resume('run-a')).rejects.toThrow('Unsupported checkpoint version');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('iterationCountIs', () => {
     it('should create a stop condition function', () => {
       const condition = iterationCountIs(5);
@@ -315,6 +585,93 @@ describe('RalphLoopAgent', () => {
     });
   });
 
+  describe('stop condition reporting', () => {
+    const createAgent = (stopWhen: ConstructorParameters<typeof RalphLoopAgent>[0]['stopWhen']) =>
+      new RalphLoopAgent({
+        model: new MockLanguageModelV3({
+          doGenerate: async () => ({
+            content: [{ type: 'text', text: 'Response' }],
+            finishReason: { unified: 'stop', raw: 'stop' },
+            usage: createMockUsage(),
+            warnings: [],
+          }),
+        }),
+        stopWhen,
+        verifyCompletion: () => ({ complete: false }),
+      });
+
+    it('should report the iteration limit', async () => {
+      const result = await createAgent(iterationCountIs(2)).loop({ prompt: 'Test' });
+
+      expect(result.completionReason).toBe('max-iterations');
+      expect(result.reason).toBe('Reached the limit of 2 iterations');
+      expect(result.stopConditions).toEqual([
+        { id: 'iteration-count', kind: 'iterations', message: 'Reached the limit of 2 iterations' },
+      ]);
+    });
+
+    it('should report budget limits as budget-exceeded', async () => {
+      // 30 tokens per iteration
+      const result = await createAgent([iterationCountIs(10), tokenCountIs(60)]).loop({
+        prompt: 'Test',
+      });
+
+      expect(result.iterations).toBe(2);
+      expect(result.completionReason).toBe('budget-exceeded');
+      expect(result.stopConditions).toEqual([
+        { id: 'token-count', kind: 'budget', message: 'Used 60 tokens (limit 60)' },
+      ]);
+    });
+
+    it('should report all conditions met in the same iteration', async () => {
+      const result = await createAgent([iterationCountIs(2), tokenCountIs(60)]).loop({
+        prompt: 'Test',
+      });
+
+      expect(result.completionReason).toBe('budget-exceeded');
+      expect(result.stopConditions?.map(condition => condition.id)).toEqual([
+        'iteration-count',
+        'token-count',
+      ]);
+    });
+
+    it('should report named and plain custom conditions', async () => {
+      const named = await createAgent(
+        namedStopCondition({
+          id: 'second-iteration',
+          message: ({ iteration }) => `Stopped at iteration ${iteration}`,
+          isMet: ({ iteration }) => iteration === 2,
+        })
+      ).loop({ prompt: 'Test' });
+
+      expect(named.completionReason).toBe('stop-condition');
+      expect(named.stopConditions).toEqual([
+        { id: 'second-iteration', kind: 'custom', message: 'Stopped at iteration 2' },
+      ]);
+
+      const plain = await createAgent(({ iteration }) => iteration === 1).loop({ prompt: 'Test' });
+
+      expect(plain.completionReason).toBe('stop-condition');
+      expect(plain.stopConditions).toEqual([
+        { id: 'custom', kind: 'custom', message: 'Custom stop condition met' },
+      ]);
+    });
+
+    it('should not report stop conditions when verified', async () => {
+      const agent = new RalphLoopAgent({
+        model: new MockLanguageModelV3({
+          doGenerate: async () => textResponse('Done'),
+        }),
+        verifyCompletion: () => ({ complete: true }),
+      });
+
+      const result = await agent.loop({ prompt: 'Test' });
+
+      expect(result.completionReason).toBe('verified');
+      expect(result.stopConditions).toBeUndefined();
+    });
+  });
+
   describe('stream', () => {
     it('should stream the final iteration', async () => {
       const mockModel = new MockLanguageModelV3({
@@ -361,6 +718,592 @@ describe('RalphLoopAgent', () => {
 
       expect(chunks.join('')).toBe('Streamed response');
     });
+
+    it('should stream the iteration that hits the stop condition', async () => {
+      const onIterationEnd = vi.fn();
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Non-streaming response'),
+        doStream: async () => streamResponse('Final iteration'),
+      });
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(2),
+        onIterationEnd,
+      });
+
+      const stream = await agent.stream({ prompt: 'Do something' });
+
+      expect(await stream.text).toBe('Final iteration');
+      expect(mockModel.doGenerateCalls).toHaveLength(1);
+      expect(mockModel.doStreamCalls).toHaveLength(1);
+
+      await vi.waitFor(() => expect(onIterationEnd).toHaveBeenCalledTimes(2));
+      expect(onIterationEnd).toHaveBeenNthCalledWith(2, expect.objectContaining({ iteration: 2 }));
+    });
+
+    it('should check the stop conditions once and hand off only one stream', async () => {
+      const onIterationEnd = vi.fn();
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async () => textResponse('Non-streaming response'),
+        doStream: async () => streamResponse('Final iteration'),
+      });
+      // Met only when first checked
+      const checked: Array<number> = [];
+      const flaky = namedStopCondition({
+        id: 'flaky',
+        message: 'Flaky',
+        isMet: ({ iteration }) => checked.push(iteration) === 1,
+      });
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: [iterationCountIs(3), flaky],
+        onIterationEnd,
+      });
+
+      const stream = await agent.stream({ prompt: 'Do something' });
+
+      expect(await stream.text).toBe('Final iteration');
+      await vi.waitFor(() => expect(onIterationEnd).toHaveBeenCalledTimes(1));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(checked).toEqual([1]);
+      expect(onIterationEnd).toHaveBeenCalledTimes(1);
+      expect(mockModel.doGenerateCalls).toHaveLength(0);
+      expect(mockModel.doStreamCalls).toHaveLength(1);
+    });
+
+    it('should pass all settings, context and cache control to the final stream', async () => {
+      const mockModel = new MockLanguageModelV3({
+        provider: 'anthropic',
+        modelId: 'claude-test',
+        doGenerate: async () => textResponse('Done'),
+        doStream: async () => streamResponse(),
+      });
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        instructions: 'Be helpful.',
+        topP: 0.5,
+        providerOptions: { anthropic: { sendReasoning: false } },
+        contextManagement: {},
+        stopWhen: iterationCountIs(3),
+        verifyCompletion: ({ iteration }) => ({ complete: iteration >= 2, reason: 'Keep going' }),
+      });
+
+      const stream = await agent.stream({ prompt: 'Do something' });
+      await stream.consumeStream();
+
+      const options = mockModel.doStreamCalls[0]!;
+      expect(options.topP).toBe(0.5);
+      expect(options.providerOptions).toEqual({ anthropic: { sendReasoning: false } });
+      expect(options.prompt[0]).toMatchObject({ role: 'system' });
+      expect(options.prompt[0]!.content).toContain('Verification feedback received');
+      expect(options.prompt.at(-1)?.providerOptions).toMatchObject({
+        anthropic: { cacheControl: { type: 'ephemeral' } },
+      });
+    });
+
+    it('should report errors after the handoff to onError', async () => {
+      const error = new Error('Callback failed');
+      const onError = vi.fn();
+      const mockModel = new MockLanguageModelV3({
+        doStream: async () => streamResponse(),
+      });
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(1),
+        onIterationEnd: () => {
+          throw error;
+        },
+        onError,
+      });
+
+      const stream = await agent.stream({ prompt: 'Do something' });
+      await stream.consumeStream();
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(error));
+    });
+
+    it('should price long-context calls at tier rates for costIs', async () => {
+      const longContextUsage = {
+        inputTokens: { total: 250_000, noCache: 250_000, cacheRead: undefined, cacheWrite: undefined },
+        outputTokens: { total: 0, text: 0, reasoning: undefined },
+      };
+      const mockModel = new MockLanguageModelV3({
+        modelId: 'anthropic/claude-sonnet-4.5',
+        doGenerate: async () => textResponse('Working', longContextUsage),
+        doStream: async () => streamResponse(),
+      });
+
+      // 250k input tokens cost $0.75 at base rates but $1.50 above the 200k tier
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: [iterationCountIs(3), costIs(1)],
+      });
+
+      const stream = await agent.stream({ prompt: 'Do something' });
+      await stream.consumeStream();
+
+      expect(mockModel.doGenerateCalls).toHaveLength(1);
+    });
+  });
+
+  describe('streamLoop', () => {
+    const createStreamingModel = (texts: string[]) => {
+      let callCount = 0;
+      return new MockLanguageModelV3({
+        doStream: async () => streamResponse(texts[callCount++] ?? 'done'),
+      });
+    };
+
+    it('should stream events from every iteration', async () => {
+      const agent = new RalphLoopAgent({
+        model: createStreamingModel(['first', 'second']),
+        stopWhen: iterationCountIs(5),
+        verifyCompletion: ({ iteration }) =>
+          iteration >= 2
+            ? { complete: true, reason: 'Done' }
+            : { complete: false, reason: 'Again' },
+      });
+
+      const events: RalphLoopEvent[] = [];
+      for await (const event of agent.streamLoop({ prompt: 'Do something' })) {
+        events.push(event);
+      }
+
+      expect(events.map(e => `${e.type}:${e.iteration}`)).toEqual([
+        'iteration-start:1',
+        'text-delta:1',
+        'step-finish:1',
+        'iteration-end:1',
+        'verification:1',
+        'iteration-start:2',
+        'text-delta:2',
+        'step-finish:2',
+        'iteration-end:2',
+        'verification:2',
+        'stop:2',
+      ]);
+      expect(events.filter(e => e.type === 'text-delta').map(e => e.text)).toEqual([
+        'first',
+        'second',
+      ]);
+
+      const stop = events.at(-1);
+      expect(stop?.type === 'stop' && stop.result).toMatchObject({
+        completionReason: 'verified',
+        iterations: 2,
+        text: 'second',
+        totalUsage: { inputTokens: 20, outputTokens: 40 },
+      });
+    });
+
+    it('should emit tool calls and results', async () => {
+      let callCount = 0;
+      const mockModel = new MockLanguageModelV3({
+        doStream: async () => {
+          callCount++;
+          const parts =
+            callCount === 1
+              ? [
+                  {
+                    type: 'tool-call' as const,
+                    toolCallId: 'call-1',
+                    toolName: 'echo',
+                    input: JSON.stringify({ value: 'hi' }),
+                  },
+                ]
+              : [
+                  { type: 'text-start' as const, id: '1' },
+                  { type: 'text-delta' as const, id: '1', delta: 'ok' },
+                  { type: 'text-end' as const, id: '1' },
+                ];
+          return {
+            stream: convertArrayToReadableStream([
+              { type: 'stream-start', warnings: [] },
+              ...parts,
+              {
+                type: 'finish',
+                finishReason: callCount === 1
+                  ? { unified: 'tool-calls', raw: 'tool_calls' }
+                  : { unified: 'stop', raw: 'stop' },
+                usage: createMockUsage(),
+              },
+            ]),
+          };
+        },
+      });
+
+      const tools = {
+        echo: tool({
+          inputSchema: z.object({ value: z.string() }),
+          execute: async ({ value }) => `echo: ${value}`,
+        }),
+      };
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        tools,
+        stopWhen: iterationCountIs(1),
+      });
+
+      const events: RalphLoopEvent<typeof tools>[] = [];
+      for await (const event of agent.streamLoop({ prompt: 'Use the tool' })) {
+        events.push(event);
+      }
+
+      const toolCall = events.find(e => e.type === 'tool-call');
+      const toolResult = events.find(e => e.type === 'tool-result');
+      expect(toolCall).toMatchObject({ iteration: 1, toolCall: { toolName: 'echo', input: { value: 'hi' } } });
+      expect(toolResult).toMatchObject({ iteration: 1, toolResult: { toolName: 'echo', output: 'echo: hi' } });
+      expect(events.filter(e => e.type === 'step-finish')).toHaveLength(2);
+    });
+  });
+
+  describe('model fallback', () => {
+    const createModel = (modelId: string, failures: Record<number, unknown> = {}) => {
+      let calls = 0;
+      return new MockLanguageModelV3({
+        modelId,
+        doGenerate: async () => {
+          calls++;
+          if (failures[calls]) {
+            throw failures[calls];
+          }
+          return textResponse(`${modelId} response`);
+        },
+      });
+    };
+
+    const overloaded = () =>
+      new APICallError({
+        message: 'Overloaded',
+        url: 'https://api.example.com',
+        requestBodyValues: {},
+        statusCode: 529,
+      });
+
+    it('should fall back to the next model when a model is overloaded', async () => {
+      const primary = createModel('primary', { 1: overloaded() });
+      const fallback = createModel('fallback');
+      const onIterationEnd = vi.fn();
+
+      const agent = new RalphLoopAgent({
+        model: [primary, fallback],
+        maxRetries: 0,
+        stopWhen: iterationCountIs(2),
+        onIterationEnd,
+      });
+
+      const result = await agent.loop({ prompt: 'Test' });
+
+      expect(result.completionReason).toBe('max-iterations');
+      expect(result.allResults.map(r => r.text)).toEqual(['fallback response', 'primary response']);
+      expect(onIterationEnd.mock.calls.map(([event]) => event.model)).toEqual(['fallback', 'primary']);
+      expect(result.usageByModel.primary?.totalTokens).toBe(30);
+      expect(result.usageByModel.fallback?.totalTokens).toBe(30);
+      expect(result.totalUsage.totalTokens).toBe(60);
+    });
+
+    it('should not fall back on fatal errors', async () => {
+      const fallback = createModel('fallback');
+      const agent = new RalphLoopAgent({
+        model: [createModel('primary', { 2: new Error('Invalid request') }), fallback],
+        maxRetries: 0,
+        stopWhen: iterationCountIs(2),
+      });
+
+      const result = await agent.loop({ prompt: 'Test' });
+
+      expect(result.completionReason).toBe('error');
+      expect(fallback.doGenerateCalls).toHaveLength(0);
+    });
+
+    it('should fail when every model is unavailable', async () => {
+      const agent = new RalphLoopAgent({
+        model: [createModel('primary', { 2: overloaded() }), createModel('fallback', { 1: overloaded() })],
+        maxRetries: 0,
+        stopWhen: iterationCountIs(2),
+      });
+
+      const result = await agent.loop({ prompt: 'Test' });
+
+      expect(result.completionReason).toBe('error');
+      expect(result.iterations).toBe(2);
+    });
+
+    it('should require at least one model', () => {
+      expect(() => new RalphLoopAgent({ model: [] })).toThrow('At least one model is required');
+    });
+  });
+
+  describe('escalation', () => {
+    const createModel = (modelId: string) =>
+      new MockLanguageModelV3({
+        modelId,
+        doGenerate: async () => textResponse(`${modelId} response`),
+        doStream: async () => streamResponse(`${modelId} response`),
+      });
+
+    it('should escalate after repeated verification failures', async () => {
+      const onIterationEnd = vi.fn();
+      const agent = new RalphLoopAgent({
+        model: 'unused',
+        escalation: { models: [createModel('cheap'), createModel('strong')], escalateAfter: 2 },
+        onIterationEnd,
+        verifyCompletion: ({ iteration }) => ({ complete: iteration === 4 }),
+      });
+
+      const events: Array<RalphLoopEvent> = [];
+      for await (const event of agent.streamLoop({ prompt: 'Test' })) {
+        events.push(event);
+      }
+
+      expect(onIterationEnd.mock.calls.map(([event]) => event.model)).toEqual([
+        'cheap',
+        'cheap',
+        'strong',
+        'strong',
+      ]);
+      expect(events.filter(event => event.type === 'model-escalated')).toEqual([
+        { type: 'model-escalated', iteration: 2, from: 'cheap', to: 'strong' },
+      ]);
+
+      const stop = events[events.length - 1];
+      expect(stop?.type === 'stop' && stop.result.usageByModel).toEqual({
+        cheap: expect.objectContaining({ totalTokens: 60 }),
+        strong: expect.objectContaining({ totalTokens: 60 }),
+      });
+    });
+
+    it('should start the next loop one tier lower after a success', async () => {
+      const onIterationEnd = vi.fn();
+      let failures = 2;
+      const agent = new RalphLoopAgent({
+        model: 'unused',
+        escalation: {
+          models: [createModel('small'), createModel('medium'), createModel('large')],
+          escalateAfter: 1,
+        },
+        onIterationEnd,
+        verifyCompletion: () => ({ complete: failures-- <= 0 }),
+      });
+
+      await agent.loop({ prompt: 'First task' });
+      failures = 0;
+      await agent.loop({ prompt: 'Second task' });
+
+      expect(onIterationEnd.mock.calls.map(([event]) => event.model)).toEqual([
+        'small',
+        'medium',
+        'large',
+        'medium',
+      ]);
+    });
+
+    it('should keep the tier when resuming', async () => {
+      const checkpoints: Array<RalphLoopCheckpoint> = [];
+      const createAgent = () =>
+        new RalphLoopAgent({
+          model: 'unused',
+          escalation: { models: [createModel('cheap'), createModel('strong')], escalateAfter: 1 },
+          stopWhen: iterationCountIs(2),
+          checkpoint: checkpoint => {
+            checkpoints.push(checkpoint);
+          },
+          verifyCompletion: () => ({ complete: false }),
+        });
+
+      await createAgent().loop({ prompt: 'Test' });
+      expect(checkpoints[0]?.escalation).toEqual({ tier: 1, failedVerifications: 0 });
+
+      const onIterationEnd = vi.fn();
+      const resumed = new RalphLoopAgent({
+        model: 'unused',
+        escalation: { models: [createModel('cheap'), createModel('strong')], escalateAfter: 1 },
+        stopWhen: iterationCountIs(3),
+        onIterationEnd,
+      });
+      await resumed.resume(checkpoints[0]!);
+
+      expect(onIterationEnd.mock.calls.map(([event]) => event.model)).toEqual(['strong', 'strong']);
+    });
+  });
+
+  describe('structured output', () => {
+    const schema = z.object({ tables: z.array(z.string()), warnings: z.number() });
+
+    const createModel = (texts: Array<string>) => {
+      let call = 0;
+      return new MockLanguageModelV3({
+        doGenerate: async () => textResponse(texts[Math.min(call++, texts.length - 1)]!),
+      });
+    };
+
+    it('should iterate until the final text matches the schema', async () => {
+      const mockModel = createModel([
+        'Migrated users and orders.',
+        '```json\n{"tables": ["users", "orders"], "warnings": 0}\n```',
+      ]);
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(5),
+        output: schema,
+      });
+
+      const result = await agent.loop({ prompt: 'Migrate the tables' });
+
+      expect(result.completionReason).toBe('verified');
+      expect(result.iterations).toBe(2);
+      expect(result.output).toEqual({ tables: ['users', 'orders'], warnings: 0 });
+
+      // The schema is part of the instructions, the parse error is fed back
+      const firstPrompt = JSON.stringify(mockModel.doGenerateCalls[0]!.prompt);
+      expect(firstPrompt).toContain('JSON schema');
+      const secondPrompt = JSON.stringify(mockModel.doGenerateCalls[1]!.prompt);
+      expect(secondPrompt).toContain('must be JSON matching the output schema');
+    });
+
+    it('should feed schema issues back and run verifyCompletion once the output parses', async () => {
+      const mockModel = createModel([
+        '{"tables": ["users"], "warnings": "none"}',
+        '{"tables": ["users"], "warnings": 2}',
+        '{"tables": ["users"], "warnings": 0}',
+      ]);
+      const verifyCompletion = vi.fn(({ result }: { result: { text: string } }) => ({
+        complete: JSON.parse(result.text).warnings === 0,
+        reason: 'Resolve the warnings',
+      }));
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        stopWhen: iterationCountIs(5),
+        output: schema,
+        verifyCompletion,
+      });
+
+      const result = await agent.loop({ prompt: 'Migrate the tables' });
+
+      expect(result.iterations).toBe(3);
+      expect(result.output?.warnings).toBe(0);
+      expect(verifyCompletion).toHaveBeenCalledTimes(2);
+      expect(JSON.stringify(mockModel.doGenerateCalls[1]!.prompt)).toContain('warnings:');
+    });
+
+    it('should not set output when the last iteration does not match', async () => {
+      const agent = new RalphLoopAgent({
+        model: createModel(['not json']),
+        stopWhen: iterationCountIs(2),
+        output: schema,
+      });
+
+      const result = await agent.loop({ prompt: 'Migrate the tables' });
+
+      expect(result.completionReason).toBe('max-iterations');
+      expect(result.output).toBeUndefined();
+    });
+  });
+
+  describe('loopParallel', () => {
+    it('should return the first verified attempt and abort the others', async () => {
+      let callCount = 0;
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async ({ abortSignal }) => {
+          if (++callCount === 2) {
+            return textResponse('win');
+          }
+          // The other attempts hang until they are aborted
+          await new Promise((_, reject) =>
+            abortSignal?.addEventListener('abort', () => reject(abortSignal.reason))
+          );
+          throw new Error('unreachable');
+        },
+      });
+
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        maxRetries: 0,
+        verifyCompletion: ({ result }) => ({ complete: result.text === 'win' }),
+      });
+
+      const result = await agent.loopParallel({ prompt: 'Fix it', attempts: 3 });
+
+      expect(result.completionReason).toBe('verified');
+      expect(result.attempt).toBe(1);
+      expect(result.attempts[0]).toBeUndefined();
+      expect(result.attempts[1]?.text).toBe('win');
+      expect(result.attempts[2]).toBeUndefined();
+      expect(result.totalUsage.totalTokens).toBe(30);
+    });
+
+    it('should share the token budget between attempts', async () => {
+      const agent = new RalphLoopAgent({
+        model: new MockLanguageModelV3({ doGenerate: async () => textResponse('not yet') }),
+        stopWhen: [iterationCountIs(10), tokenCountIs(150)],
+        verifyCompletion: () => ({ complete: false }),
+      });
+
+      const result = await agent.loopParallel({ prompt: 'Fix it', attempts: 3 });
+
+      const iterations = result.attempts.reduce((sum, attempt) => sum + (attempt?.iterations ?? 0), 0);
+      expect(iterations).toBeLessThan(30);
+      expect(result.attempts.every(attempt => attempt?.completionReason === 'budget-exceeded')).toBe(true);
+      expect(result.totalUsage.totalTokens).toBe(iterations * 30);
+      expect(result.totalUsage.totalTokens).toBeGreaterThanOrEqual(150);
+    });
+
+    it('should let a selector pick from all attempts', async () => {
+      let callCount = 0;
+      const agent = new RalphLoopAgent({
+        model: new MockLanguageModelV3({
+          doGenerate: async () => textResponse(++callCount === 3 ? 'the best answer' : 'ok'),
+        }),
+        verifyCompletion: () => ({ complete: true }),
+      });
+
+      let selected = 0;
+      const result = await agent.loopParallel({
+        prompt: 'Answer',
+        attempts: 3,
+        select: results => {
+          selected++;
+          return results.reduce((best, result) => (result.text.length > best.text.length ? result : best));
+        },
+      });
+
+      expect(selected).toBe(1);
+      expect(result.text).toBe('the best answer');
+      expect(result.attempts[result.attempt]?.text).toBe('the best answer');
+      expect(result.attempts.every(attempt => attempt?.completionReason === 'verified')).toBe(true);
+      expect(result.totalUsage.totalTokens).toBe(90);
+    });
+
+    it('should steer every attempt', async () => {
+      const prompts: Array<string> = [];
+      const mockModel = new MockLanguageModelV3({
+        doGenerate: async ({ prompt }) => {
+          prompts.push(JSON.stringify(prompt));
+          if (prompts.length === 1) {
+            agent.steer('Use pnpm', { when: 'next-iteration' });
+          }
+          return textResponse('ok');
+        },
+      });
+      const agent = new RalphLoopAgent({
+        model: mockModel,
+        verifyCompletion: ({ iteration }) => ({ complete: iteration === 2 }),
+      });
+      agent.steer('Start with package a');
+
+      await agent.loopParallel({ prompt: 'Fix it', attempts: 2 });
+
+      expect(prompts).toHaveLength(4);
+      expect(prompts.filter(prompt => prompt.includes('Start with package a'))).toHaveLength(4);
+      expect(prompts.filter(prompt => prompt.includes('Use pnpm'))).toHaveLength(2);
+    });
   });
 
   describe('properties', () => {
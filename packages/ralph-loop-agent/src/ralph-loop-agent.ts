@@ -3,27 +3,69 @@ import {
   streamText,
   stepCountIs,
   type GenerateTextResult,
+  type StepResult,
   type StreamTextResult,
   type ToolSet,
   type LanguageModel,
   type LanguageModelUsage,
   type StopCondition,
 } from 'ai';
-import type { ModelMessage } from '@ai-sdk/provider-utils';
-import type { RalphLoopAgentSettings } from './ralph-loop-agent-settings';
-import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+import {
+  asSchema,
+  delay,
+  safeParseJSON,
+  type ModelMessage,
+  type UserContent,
+} from '@ai-sdk/provider-utils';
+import { randomUUID } from 'node:crypto';
+import type {
+  ContinuationPromptFunction,
+  FormatFeedbackFunction,
+  RalphLoopAgentSettings,
+} from './ralph-loop-agent-settings';
+import type { RalphIterationErrorEvent, RalphLoopEvent } from './ralph-loop-agent-events';
+import type { VerifyCompletionContext, VerifyCompletionResult } from './ralph-loop-agent-evaluator';
 import {
   iterationCountIs,
-  isRalphStopConditionMet,
+  getMetRalphStopConditions,
+  getRemainingBudget,
   addLanguageModelUsage,
   aggregateStepUsage,
   type RalphStopCondition,
   type RalphStopConditionContext,
+  type RalphStopConditionInfo,
 } from './ralph-stop-condition';
+import { RalphContextManager, formatContextInjection } from './ralph-context-manager';
+import {
+  RalphTaskList,
+  extractTasksFromPrompt,
+  type RalphTask,
+} from './ralph-tasks';
+import { RalphProgressNotes } from './ralph-notes';
+import { buildStallNudge, findRepeatedActions } from './ralph-stall-detector';
+import {
+  updateEscalationState,
+  type RalphEscalationState,
+} from './ralph-escalation';
+import {
+  classifyError,
+  dropOldestMessages,
+  getRetryDelay,
+} from './ralph-retry';
+import { extractJsonText, formatSchemaError } from './ralph-verifiers';
+import { bindToolsToLoop } from './ralph-sub-agent';
+import { gateToolsWithApproval } from './ralph-approval';
 import {
-  RalphContextManager,
-  estimateMessageTokens,
-} from './ralph-context-manager';
+  RalphSteeringQueue,
+  RalphStepInjection,
+  type RalphSteerOptions,
+} from './ralph-steering';
+import { RalphLoopRun, type RalphLoopRunControl } from './ralph-loop-run';
+import { createIterationStats, type RalphIterationStats } from './ralph-iteration-stats';
+import {
+  RALPH_CHECKPOINT_VERSION,
+  type RalphLoopCheckpoint,
+} from './ralph-checkpoint';
 
 /**
  * Parameters for calling a RalphLoopAgent.
@@ -49,12 +91,25 @@ export type RalphLoopAgentCallParameters = {
    * Starting iteration number (for resuming). Defaults to 0.
    */
   startIteration?: number;
+
+  /**
+   * Additional stop conditions for this call, checked together with the
+   * agent's `stopWhen` (e.g. a budget for one run).
+   */
+  stopWhen?: RalphStopCondition<any> | Array<RalphStopCondition<any>>;
+
+  /**
+   * Called with usage as the loop spends it (iterations, verification and
+   * summarization), with the usage of each model call as `calls`. Usage
+   * spent before the loop throws or is aborted is reported too.
+   */
+  onUsage?: (usage: LanguageModelUsage, model: string, calls: Array<LanguageModelUsage>) => void;
 };
 
 /**
  * Result of a RalphLoopAgent execution.
  */
-export interface RalphLoopAgentResult<TOOLS extends ToolSet = {}> {
+export interface RalphLoopAgentResult<TOOLS extends ToolSet = {}, OUTPUT = never> {
   /**
    * The final text output.
    */
@@ -66,19 +121,77 @@ export interface RalphLoopAgentResult<TOOLS extends ToolSet = {}> {
   readonly iterations: number;
 
   /**
-   * Why the loop stopped.
+   * Why the loop stopped:
+   * - `verified`: verifyCompletion reported the task as complete
+   * - `max-iterations`: an iteration limit was reached
+   * - `budget-exceeded`: a token, cost or time limit was reached
+   * - `stop-condition`: a custom stop condition was met
+   * - `aborted`: the abort signal fired, or `abort()` was called on the run handle
+   * - `stopped`: `stopAfterIteration()` was called on the run handle
+   * - `error`: an iteration failed and could not be retried (see `error`)
    */
-  readonly completionReason: 'verified' | 'max-iterations' | 'aborted';
+  readonly completionReason:
+    | 'verified'
+    | 'max-iterations'
+    | 'budget-exceeded'
+    | 'stop-condition'
+    | 'aborted'
+    | 'stopped'
+    | 'error';
 
   /**
-   * The reason message from verifyCompletion (if provided).
+   * Set when the loop was stopped from outside: `graceful` when it finished
+   * its iteration first (`stopAfterIteration()`), `hard` when it was
+   * interrupted (`abort()` or the abort signal).
+   */
+  readonly stop?: 'graceful' | 'hard';
+
+  /**
+   * The reason message from verifyCompletion, or the message of the
+   * stop condition that ended the loop.
    */
   readonly reason?: string;
 
   /**
-   * The full result from the last iteration.
+   * The stop conditions that were met when the loop stopped.
+   * Only set when the loop was ended by stop conditions.
+   */
+  readonly stopConditions?: Array<RalphStopConditionInfo>;
+
+  /**
+   * The error that ended the loop (completionReason 'error').
+   * The other fields describe the iterations completed before it.
+   */
+  readonly error?: unknown;
+
+  /**
+   * The structured output parsed from the final text (requires the
+   * `output` setting). Only set if the text of the last iteration was
+   * checked against the schema and matched it.
+   */
+  readonly output?: OUTPUT;
+
+  /**
+   * Status of every checklist item (checklist mode, see the `tasks` setting).
+   */
+  readonly tasks?: Array<RalphTask>;
+
+  /**
+   * The agent's progress notes (see the `contextStrategy` setting).
+   */
+  readonly notes?: string;
+
+  /**
+   * Usage, cost, duration, tool calls and verification outcome of every
+   * iteration this call ran (a resumed loop reports only its own iterations).
+   */
+  readonly iterationStats: Array<RalphIterationStats>;
+
+  /**
+   * The full result from the last iteration. Not set when the first
+   * iteration failed (completionReason 'error').
    */
-  readonly result: GenerateTextResult<TOOLS, never>;
+  readonly result?: GenerateTextResult<TOOLS, never>;
 
   /**
    * All results from each iteration.
@@ -89,6 +202,208 @@ export interface RalphLoopAgentResult<TOOLS extends ToolSet = {}> {
    * Aggregated token usage across all iterations.
    */
   readonly totalUsage: LanguageModelUsage;
+
+  /**
+   * Token usage per model id (differs from `totalUsage` only with model fallbacks).
+   */
+  readonly usageByModel: Record<string, LanguageModelUsage>;
+
+  /**
+   * Token usage of each model call per model id, for pricing with tiers
+   * (see `CostRates.tiers`). Not set for runs resumed from checkpoints
+   * without it.
+   */
+  readonly callUsageByModel?: Record<string, Array<LanguageModelUsage>>;
+
+  /**
+   * The id under which checkpoints were stored (if a checkpoint store is configured).
+   */
+  readonly runId?: string;
+}
+
+/**
+ * Parameters for `RalphLoopAgent.loopParallel()`.
+ */
+export type RalphLoopParallelParameters<TOOLS extends ToolSet = {}, OUTPUT = never> = Pick<
+  RalphLoopAgentCallParameters,
+  'prompt' | 'abortSignal' | 'stopWhen'
+> & {
+  /**
+   * How many independent loops to run concurrently.
+   */
+  attempts: number;
+
+  /**
+   * Pick the result once all attempts have finished. Without a selector, the
+   * first verified attempt wins and the others are aborted.
+   */
+  select?: (
+    results: Array<RalphLoopAgentResult<TOOLS, OUTPUT>>
+  ) => RalphLoopAgentResult<TOOLS, OUTPUT> | Promise<RalphLoopAgentResult<TOOLS, OUTPUT>>;
+};
+
+/**
+ * Result of `RalphLoopAgent.loopParallel()`: the winning attempt's result,
+ * with `totalUsage`, `usageByModel` and `callUsageByModel` covering all attempts.
+ */
+export interface RalphLoopParallelResult<TOOLS extends ToolSet = {}, OUTPUT = never>
+  extends RalphLoopAgentResult<TOOLS, OUTPUT> {
+  /**
+   * Index of the winning attempt.
+   */
+  readonly attempt: number;
+
+  /**
+   * The results of all attempts, in attempt order. Attempts that were aborted
+   * or failed before completing an iteration are undefined.
+   */
+  readonly attempts: Array<RalphLoopAgentResult<TOOLS, OUTPUT> | undefined>;
+}
+
+/**
+ * Usage totals of a loop.
+ */
+type UsageTotals = {
+  totalUsage: LanguageModelUsage;
+  usageByModel: Record<string, LanguageModelUsage>;
+  callUsageByModel?: Record<string, Array<LanguageModelUsage>>;
+};
+
+/**
+ * Add usage spent on a model to usage totals. `calls` is the usage of each
+ * model call that makes up `usage`.
+ */
+function addUsageTo(
+  totals: UsageTotals,
+  usage: LanguageModelUsage,
+  model: string,
+  calls: Array<LanguageModelUsage> = [usage]
+): void {
+  totals.totalUsage = addLanguageModelUsage(totals.totalUsage, usage);
+  const modelUsage = totals.usageByModel[model];
+  totals.usageByModel[model] = modelUsage ? addLanguageModelUsage(modelUsage, usage) : usage;
+  if (totals.callUsageByModel) {
+    totals.callUsageByModel[model] = [...(totals.callUsageByModel[model] ?? []), ...calls];
+  }
+}
+
+/**
+ * Map the stop conditions that ended the loop to a completion reason.
+ * Budget limits take precedence over iteration limits.
+ */
+function getStopConditionCompletionReason(
+  conditions: Array<RalphStopConditionInfo>
+): RalphLoopAgentResult['completionReason'] {
+  if (conditions.some(condition => condition.kind === 'budget')) {
+    return 'budget-exceeded';
+  }
+  if (conditions.some(condition => condition.kind === 'iterations')) {
+    return 'max-iterations';
+  }
+  return 'stop-condition';
+}
+
+/**
+ * Default continuation prompt.
+ */
+const defaultContinuationPrompt: ContinuationPromptFunction = () =>
+  'Continue working on the task. The previous attempt was not complete.';
+
+/**
+ * Default feedback message.
+ */
+const defaultFormatFeedback: FormatFeedbackFunction = ({ verification }) =>
+  verification.reason ? `Feedback: ${verification.reason}` : undefined;
+
+/**
+ * Wrap prompt content in a user message.
+ */
+function toUserMessage(content: UserContent): ModelMessage {
+  return {
+    role: 'user',
+    content: typeof content === 'string' ? [{ type: 'text', text: content }] : content,
+  };
+}
+
+/**
+ * State the outer loop starts from (fresh, or restored from a checkpoint).
+ */
+type LoopState = {
+  prompt: string;
+  abortSignal?: AbortSignal;
+  runId?: string;
+  iteration: number;
+  messages: Array<ModelMessage>;
+  totalUsage: LanguageModelUsage;
+  usageByModel?: Record<string, LanguageModelUsage>;
+  callUsageByModel?: Record<string, Array<LanguageModelUsage>>;
+  escalation?: RalphEscalationState;
+  verification?: VerifyCompletionResult;
+  stopWhen?: RalphLoopAgentCallParameters['stopWhen'];
+  onUsage?: RalphLoopAgentCallParameters['onUsage'];
+  tasks?: Array<RalphTask>;
+  notes?: string;
+
+  /**
+   * Set by start(): pauses and stops the loop.
+   */
+  control?: RalphLoopRunControl;
+
+  /**
+   * Set by loopParallel(): usage of all attempts, which the stop conditions check.
+   */
+  sharedUsage?: UsageTotals;
+
+  /**
+   * Set by stream(): receives the stream of the final iteration.
+   */
+  onFinalStream?: (stream: StreamTextResult<any, never>) => void;
+};
+
+/**
+ * A GenerateTextResult assembled from the steps of a streamed iteration.
+ * Mirrors the AI SDK's own result, which reads everything from the final step.
+ */
+class StreamedIterationResult<TOOLS extends ToolSet> implements GenerateTextResult<TOOLS, never> {
+  readonly steps: Array<StepResult<TOOLS>>;
+  readonly totalUsage: LanguageModelUsage;
+
+  constructor(steps: Array<StepResult<TOOLS>>, totalUsage: LanguageModelUsage) {
+    this.steps = steps;
+    this.totalUsage = totalUsage;
+  }
+
+  private get finalStep(): StepResult<TOOLS> {
+    return this.steps[this.steps.length - 1]!;
+  }
+
+  get content() { return this.finalStep.content; }
+  get text() { return this.finalStep.text; }
+  get files() { return this.finalStep.files; }
+  get reasoningText() { return this.finalStep.reasoningText; }
+  get reasoning() { return this.finalStep.reasoning; }
+  get toolCalls() { return this.finalStep.toolCalls; }
+  get staticToolCalls() { return this.finalStep.staticToolCalls; }
+  get dynamicToolCalls() { return this.finalStep.dynamicToolCalls; }
+  get toolResults() { return this.finalStep.toolResults; }
+  get staticToolResults() { return this.finalStep.staticToolResults; }
+  get dynamicToolResults() { return this.finalStep.dynamicToolResults; }
+  get sources() { return this.finalStep.sources; }
+  get finishReason() { return this.finalStep.finishReason; }
+  get rawFinishReason() { return this.finalStep.rawFinishReason; }
+  get warnings() { return this.finalStep.warnings; }
+  get providerMetadata() { return this.finalStep.providerMetadata; }
+  get response() { return this.finalStep.response; }
+  get request() { return this.finalStep.request; }
+  get usage() { return this.finalStep.usage; }
+
+  get output(): never {
+    throw new Error('Streamed iterations do not produce structured output');
+  }
+
+  get experimental_output(): never {
+    return this.output;
+  }
 }
 
 // Re-export stop condition helpers
@@ -119,13 +434,26 @@ export type { RalphStopCondition, RalphStopConditionContext } from './ralph-stop
  * const result = await agent.loop({ prompt: 'Do the task' });
  * ```
  */
-export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
+export class RalphLoopAgent<TOOLS extends ToolSet = {}, OUTPUT = never> {
   readonly version = 'ralph-agent-v1';
 
-  private readonly settings: RalphLoopAgentSettings<TOOLS>;
+  private readonly settings: RalphLoopAgentSettings<TOOLS, OUTPUT>;
   private readonly contextManager: RalphContextManager | null;
+  /** Escalation tier the next loop starts on. */
+  private escalationTier = 0;
+  /** Messages from steer() that the loop has not picked up yet. */
+  private readonly steering = new RalphSteeringQueue();
+  /** Steering queues of the running loopParallel() attempts. */
+  private readonly attemptSteering = new Set<RalphSteeringQueue>();
+
+  constructor(settings: RalphLoopAgentSettings<TOOLS, OUTPUT>) {
+    if (Array.isArray(settings.model) && settings.model.length === 0) {
+      throw new Error('At least one model is required');
+    }
+    if (settings.escalation && settings.escalation.models.length === 0) {
+      throw new Error('The escalation policy requires at least one model');
+    }
 
-  constructor(settings: RalphLoopAgentSettings<TOOLS>) {
     this.settings = settings;
     
     // Initialize context manager if configured
@@ -156,10 +484,76 @@ export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
   }
 
   /**
-   * Get the model identifier string.
+   * Send a user message to the running loop, e.g. to redirect it, without
+   * aborting it. With `when: 'next-step'` (the default) the message is added
+   * before the next step of the current iteration; with `'next-iteration'`,
+   * at the start of the next iteration. Either way it stays in the
+   * conversation history. If no loop is running, the next loop picks it up.
+   * During `loopParallel()`, every attempt gets the message.
+   *
+   * @example
+   * ```ts
+   * const result = agent.loop({ prompt: 'Migrate the tests to Vitest' });
+   * agent.steer('Skip the e2e tests, they are being rewritten.');
+   * await result;
+   * ```
+   */
+  steer(message: UserContent, { when = 'next-step' }: RalphSteerOptions = {}): void {
+    const queues = this.attemptSteering.size > 0 ? this.attemptSteering : [this.steering];
+    for (const queue of queues) {
+      queue.push(toUserMessage(message), when);
+    }
+  }
+
+  /**
+   * Build the "you are repeating yourself" nudge if the last iteration
+   * repeated earlier actions (only when stall detection is enabled).
    */
-  private getModelId(): string {
+  private getStallNudge(
+    allResults: Array<GenerateTextResult<TOOLS, never>>
+  ): string | undefined {
+    const { stallDetection } = this.settings;
+    if (!stallDetection) {
+      return undefined;
+    }
+
+    const config = stallDetection === true ? {} : stallDetection;
+    const lastResultIndex = allResults.length - 1;
+    const repeatedActions = findRepeatedActions(allResults, config.threshold ?? 2).filter(
+      action => action.lastResultIndex === lastResultIndex
+    );
+
+    if (repeatedActions.length === 0) {
+      return undefined;
+    }
+    return (config.nudge ?? buildStallNudge)(repeatedActions);
+  }
+
+  /**
+   * Get the models in fallback order.
+   */
+  private getModels(): Array<LanguageModel | string> {
     const model = this.settings.model;
+    return Array.isArray(model) ? model : [model];
+  }
+
+  /**
+   * Get the models to try for an iteration: the escalation model of the
+   * tier (if an escalation policy is set), then the fallback models.
+   */
+  private getModelChain(escalationTier: number): Array<LanguageModel | string> {
+    const models = this.getModels();
+    const escalationModel = this.settings.escalation?.models[escalationTier];
+    if (!escalationModel) {
+      return models;
+    }
+    return [escalationModel, ...models.filter(model => model !== escalationModel)];
+  }
+
+  /**
+   * Get the model identifier string (of the primary model by default).
+   */
+  private getModelId(model: LanguageModel | string = this.getModels()[0]!): string {
     // Handle both string models (gateway format) and LanguageModel objects
     if (typeof model === 'string') {
       return model;
@@ -168,10 +562,9 @@ export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
   }
 
   /**
-   * Check if the current model is an Anthropic model (for prompt caching).
+   * Check if a model is an Anthropic model (for prompt caching).
    */
-  private isAnthropicModel(): boolean {
-    const model = this.settings.model;
+  private isAnthropicModel(model: LanguageModel | string): boolean {
     if (typeof model === 'string') {
       return model.includes('anthropic') || model.includes('claude');
     }
@@ -217,28 +610,328 @@ export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
   /**
    * Runs the agent loop until completion or stop condition is met.
    */
-  async loop({
+  async loop(params: RalphLoopAgentCallParameters): Promise<RalphLoopAgentResult<TOOLS, OUTPUT>> {
+    return this.runLoop(this.createLoopState(params));
+  }
+
+  /**
+   * Starts the agent loop in the background and returns a handle to pause,
+   * resume and stop it. `run.result` resolves with the same result as `loop()`.
+   * Pass `{ checkpoint }` instead of a prompt to continue a loop like `resume()`
+   * (call-level `stopWhen` conditions are not saved, so pass them again).
+   *
+   * @example
+   * ```ts
+   * const run = agent.start({ prompt: 'Migrate the tests to Vitest' });
+   * process.on('SIGINT', () => run.stopAfterIteration());
+   *
+   * const result = await run.result;
+   * console.log(result.stop); // 'graceful' after stopAfterIteration()
+   * ```
+   */
+  start(
+    params:
+      | RalphLoopAgentCallParameters
+      | ({ checkpoint: RalphLoopCheckpoint | string } & Pick<
+          RalphLoopAgentCallParameters,
+          'abortSignal' | 'stopWhen'
+        >)
+  ): RalphLoopRun<TOOLS, OUTPUT> {
+    return new RalphLoopRun<TOOLS, OUTPUT>(async (control, abortSignal) => {
+      const state =
+        'checkpoint' in params
+          ? await this.restoreLoopState(params.checkpoint, abortSignal, params.stopWhen)
+          : this.createLoopState({ ...params, abortSignal });
+      return this.runLoop({ ...state, control });
+    }, params.abortSignal);
+  }
+
+  /**
+   * The state a new loop starts from.
+   */
+  private createLoopState({
     prompt,
     abortSignal,
     preserveContext = false,
     startIteration = 0,
-  }: RalphLoopAgentCallParameters): Promise<RalphLoopAgentResult<TOOLS>> {
-    const allResults: Array<GenerateTextResult<TOOLS, never>> = [];
-    let currentMessages: Array<ModelMessage> = [];
-    let iteration = startIteration;
-    let totalUsage: LanguageModelUsage = this.createEmptyUsage();
-    let completionReason: RalphLoopAgentResult<TOOLS>['completionReason'] = 'max-iterations';
-    let reason: string | undefined;
-
-    const stopConditions = this.getStopConditions();
-    const modelId = this.getModelId();
-    const model = this.settings.model;
-
+    stopWhen,
+    onUsage,
+  }: RalphLoopAgentCallParameters): LoopState {
     // Reset context manager for new loop (unless preserving context for resume)
     if (!preserveContext) {
       this.contextManager?.clear();
     }
 
+    return {
+      prompt,
+      abortSignal,
+      runId: this.settings.runId ?? (this.settings.checkpointStore ? randomUUID() : undefined),
+      iteration: startIteration,
+      messages: [],
+      totalUsage: this.createEmptyUsage(),
+      callUsageByModel: {},
+      stopWhen,
+      onUsage,
+    };
+  }
+
+  /**
+   * Runs several independent loops on the same prompt concurrently (best-of-N).
+   *
+   * Stop conditions check the usage of all attempts together, so token and
+   * cost budgets are shared. The first verified attempt wins and the others
+   * are aborted; with `select`, all attempts run to the end and the selector
+   * picks the result. If no attempt is verified, the first attempt that
+   * returned a result wins.
+   *
+   * Each attempt runs on its own copy of the agent, with its own context
+   * manager and (with a checkpoint store) its own run id. Messages sent with
+   * `steer()` reach every attempt.
+   *
+   * @example
+   * ```ts
+   * const result = await agent.loopParallel({ prompt: 'Fix the flaky test', attempts: 3 });
+   * console.log(`Attempt ${result.attempt} won`, result.totalUsage);
+   * ```
+   */
+  async loopParallel({
+    prompt,
+    abortSignal,
+    stopWhen,
+    attempts,
+    select,
+  }: RalphLoopParallelParameters<TOOLS, OUTPUT>): Promise<RalphLoopParallelResult<TOOLS, OUTPUT>> {
+    if (attempts < 1) {
+      throw new Error('loopParallel requires at least one attempt');
+    }
+
+    const sharedUsage: UsageTotals = {
+      totalUsage: this.createEmptyUsage(),
+      usageByModel: {},
+      callUsageByModel: {},
+    };
+    const runId = this.settings.runId ?? (this.settings.checkpointStore ? randomUUID() : undefined);
+    const controllers = Array.from({ length: attempts }, () => new AbortController());
+    let winner: number | undefined;
+
+    // Messages steered before the call go to every attempt
+    const steered = {
+      'next-step': this.steering.take('next-step'),
+      'next-iteration': this.steering.take('next-iteration'),
+    };
+
+    const runs = controllers.map(async (controller, index) => {
+      const agent = new RalphLoopAgent<TOOLS, OUTPUT>({
+        ...this.settings,
+        runId: runId ? `${runId}-${index}` : undefined,
+      });
+      agent.escalationTier = this.escalationTier;
+      agent.steering.restore(steered['next-step'], 'next-step');
+      agent.steering.restore(steered['next-iteration'], 'next-iteration');
+      this.attemptSteering.add(agent.steering);
+
+      const result = await agent.runLoop({
+        prompt,
+        abortSignal: abortSignal ? AbortSignal.any([abortSignal, controller.signal]) : controller.signal,
+        runId: agent.settings.runId,
+        iteration: 0,
+        messages: [],
+        totalUsage: this.createEmptyUsage(),
+        callUsageByModel: {},
+        stopWhen,
+        sharedUsage,
+      }).finally(() => this.attemptSteering.delete(agent.steering));
+
+      // The first verified attempt wins; abort the others
+      if (!select && winner === undefined && result.completionReason === 'verified') {
+        winner = index;
+        controllers.forEach((other, otherIndex) => {
+          if (otherIndex !== index) {
+            other.abort(new Error(`Attempt ${index} was verified first`));
+          }
+        });
+      }
+      return result;
+    });
+
+    const settled = await Promise.allSettled(runs);
+    const results = settled.map(outcome =>
+      outcome.status === 'fulfilled' ? outcome.value : undefined
+    );
+    const completed = results.filter(
+      (result): result is RalphLoopAgentResult<TOOLS, OUTPUT> => result !== undefined
+    );
+
+    if (completed.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    let chosen: RalphLoopAgentResult<TOOLS, OUTPUT>;
+    if (select) {
+      chosen = await select(completed);
+    } else {
+      chosen = winner !== undefined ? results[winner]! : completed[0]!;
+    }
+
+    const attempt = results.indexOf(chosen);
+    if (attempt === -1) {
+      throw new Error('The loopParallel selector must return one of the attempt results');
+    }
+
+    return {
+      ...chosen,
+      totalUsage: sharedUsage.totalUsage,
+      usageByModel: sharedUsage.usageByModel,
+      callUsageByModel: sharedUsage.callUsageByModel,
+      attempt,
+      attempts: results,
+    };
+  }
+
+  /**
+   * Resumes a loop from a checkpoint, or from the latest checkpoint of a run
+   * id in the configured `checkpointStore`.
+   *
+   * Restores the conversation history, iteration count, token usage and
+   * context manager state, then continues iterating. Stop conditions passed
+   * to the original call with `stopWhen` are not saved in checkpoints, so
+   * pass them again here.
+   */
+  async resume(
+    checkpointOrRunId: RalphLoopCheckpoint | string,
+    { abortSignal, stopWhen }: Pick<RalphLoopAgentCallParameters, 'abortSignal' | 'stopWhen'> = {},
+  ): Promise<RalphLoopAgentResult<TOOLS, OUTPUT>> {
+    return this.runLoop(await this.restoreLoopState(checkpointOrRunId, abortSignal, stopWhen));
+  }
+
+  /**
+   * The state a resumed loop starts from.
+   */
+  private async restoreLoopState(
+    checkpointOrRunId: RalphLoopCheckpoint | string,
+    abortSignal: AbortSignal | undefined,
+    stopWhen?: RalphLoopAgentCallParameters['stopWhen']
+  ): Promise<LoopState> {
+    let checkpoint: RalphLoopCheckpoint;
+    if (typeof checkpointOrRunId === 'string') {
+      if (!this.settings.checkpointStore) {
+        throw new Error('Resuming by run id requires a checkpointStore');
+      }
+      const loaded = await this.settings.checkpointStore.load(checkpointOrRunId);
+      if (!loaded) {
+        throw new Error(`No checkpoint found for run "${checkpointOrRunId}"`);
+      }
+      checkpoint = { ...loaded, runId: loaded.runId ?? checkpointOrRunId };
+    } else {
+      checkpoint = checkpointOrRunId;
+    }
+
+    if (checkpoint.version !== RALPH_CHECKPOINT_VERSION) {
+      throw new Error(
+        `Unsupported checkpoint version ${checkpoint.version} (expected ${RALPH_CHECKPOINT_VERSION})`
+      );
+    }
+
+    if (this.contextManager) {
+      if (checkpoint.contextState) {
+        this.contextManager.restoreState(checkpoint.contextState);
+      } else {
+        this.contextManager.clear();
+      }
+    }
+
+    return {
+      prompt: checkpoint.prompt,
+      abortSignal,
+      runId:
+        checkpoint.runId ??
+        this.settings.runId ??
+        (this.settings.checkpointStore ? randomUUID() : undefined),
+      iteration: checkpoint.iteration,
+      messages: checkpoint.messages,
+      totalUsage: checkpoint.totalUsage,
+      usageByModel: checkpoint.usageByModel,
+      callUsageByModel: checkpoint.callUsageByModel,
+      escalation: checkpoint.escalation,
+      verification: checkpoint.verification,
+      tasks: checkpoint.tasks,
+      notes: checkpoint.notes,
+      stopWhen,
+    };
+  }
+
+  /**
+   * Runs the agent loop and emits events as it progresses.
+   *
+   * Every iteration is streamed, so text deltas and tool calls are visible
+   * across the whole loop. When the loop ends, the final event is a `stop`
+   * event carrying the loop result, which is also the generator's return
+   * value. If the loop throws (e.g. a callback throws), the generator throws
+   * the error instead, without a `stop` event.
+   *
+   * @example
+   * ```ts
+   * for await (const event of agent.streamLoop({ prompt: 'Do the task' })) {
+   *   if (event.type === 'text-delta') process.stdout.write(event.text);
+   * }
+   * ```
+   */
+  async *streamLoop(
+    params: RalphLoopAgentCallParameters
+  ): AsyncGenerator<RalphLoopEvent<TOOLS, OUTPUT>, RalphLoopAgentResult<TOOLS, OUTPUT>> {
+    return yield* this.runIterations({ ...this.createLoopState(params), streaming: true });
+  }
+
+  /**
+   * Runs the outer loop to completion without streaming.
+   */
+  private async runLoop(initial: LoopState): Promise<RalphLoopAgentResult<TOOLS, OUTPUT>> {
+    const iterations = this.runIterations({ ...initial, streaming: false });
+    while (true) {
+      const next = await iterations.next();
+      if (next.done) {
+        return next.value;
+      }
+    }
+  }
+
+  /**
+   * The shared iteration engine behind loop(), resume(), stream() and streamLoop().
+   */
+  private async *runIterations(
+    initial: LoopState & { streaming: boolean }
+  ): AsyncGenerator<RalphLoopEvent<TOOLS, OUTPUT>, RalphLoopAgentResult<TOOLS, OUTPUT>> {
+    const { prompt, abortSignal, runId, streaming, onFinalStream, control } = initial;
+    const allResults: Array<GenerateTextResult<TOOLS, never>> = [];
+    let currentMessages: Array<ModelMessage> = [...initial.messages];
+    let iteration = initial.iteration;
+    let totalUsage: LanguageModelUsage = initial.totalUsage;
+    let completionReason: RalphLoopAgentResult<TOOLS, OUTPUT>['completionReason'] = 'max-iterations';
+    let reason: string | undefined;
+    let triggeredStopConditions: Array<RalphStopConditionInfo> | undefined;
+    let loopError: unknown;
+    let lastMessagesSent: Array<ModelMessage> | undefined;
+    let finalStreamStarted = false;
+
+    const callStopConditions = initial.stopWhen ?? [];
+    const stopConditions = [
+      ...this.getStopConditions(),
+      ...(Array.isArray(callStopConditions) ? callStopConditions : [callStopConditions]),
+    ];
+    const models = this.getModels();
+    const primaryModel = models[0]!;
+    // The model used in the latest iteration
+    let modelId = this.getModelId(primaryModel);
+    const usageByModel: Record<string, LanguageModelUsage> = { ...initial.usageByModel };
+    // Not tracked when resuming from a checkpoint that has only the totals
+    const callUsageByModel: Record<string, Array<LanguageModelUsage>> | undefined =
+      initial.callUsageByModel && { ...initial.callUsageByModel };
+    const escalationPolicy = this.settings.escalation;
+    let escalationState: RalphEscalationState = initial.escalation ?? {
+      tier: Math.min(this.escalationTier, (escalationPolicy?.models.length ?? 1) - 1),
+      failedVerifications: 0,
+    };
+
     // Build the initial user message
     const initialUserMessage: ModelMessage = {
       role: 'user',
@@ -246,97 +939,248 @@ export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
     };
 
     // Add instructions as system message if provided
-    const systemMessages = this.buildSystemMessages();
+    const systemMessages = [...this.buildSystemMessages(), ...(await this.buildOutputInstructions())];
+
+    const loopStartTime = Date.now();
+    const verifications: Array<VerifyCompletionResult> = [];
+    const iterationStats: Array<RalphIterationStats> = [];
+    let lastVerification = initial.verification;
+    let output: OUTPUT | undefined;
+
+    // Add usage to the totals of the loop and of the model it was spent on
+    const addUsage = (
+      usage: LanguageModelUsage,
+      model: string,
+      calls: Array<LanguageModelUsage> = [usage]
+    ) => {
+      const totals: UsageTotals = { totalUsage, usageByModel, callUsageByModel };
+      addUsageTo(totals, usage, model, calls);
+      totalUsage = totals.totalUsage;
+      if (initial.sharedUsage) {
+        addUsageTo(initial.sharedUsage, usage, model, calls);
+      }
+      initial.onUsage?.(usage, model, calls);
+    };
+
+    // Budgets apply to the usage of all attempts of loopParallel()
+    const getStopContext = (): RalphStopConditionContext<TOOLS> => ({
+      iteration,
+      allResults,
+      totalUsage: initial.sharedUsage?.totalUsage ?? totalUsage,
+      model: modelId,
+      usageByModel: initial.sharedUsage?.usageByModel ?? usageByModel,
+      callUsageByModel: initial.sharedUsage?.callUsageByModel ?? callUsageByModel,
+      startTime: loopStartTime,
+      verifications,
+    });
+
+    // Checklist mode: the agent works through the tasks with the task tools
+    const taskList = this.createTaskList(prompt, initial.tasks);
+    this.contextManager?.setTaskList(taskList);
+
+    // Tools that need the loop (e.g. sub-agent tools) are bound to this run
+    const boundTools = this.settings.tools
+      ? bindToolsToLoop(this.settings.tools, {
+          getRemainingBudget: () => getRemainingBudget({ stopConditions, context: getStopContext() }),
+          reportUsage: addUsage,
+        })
+      : undefined;
+    // Fresh-context mode: only the progress notes carry over between iterations
+    const notes =
+      this.settings.contextStrategy === 'fresh' ? new RalphProgressNotes(initial.notes) : null;
+
+    const loopTools =
+      taskList || notes
+        ? ({
+            ...boundTools,
+            ...taskList?.createTools(),
+            ...notes?.createTools(),
+          } as ToolSet as TOOLS)
+        : boundTools;
+
+    // Sensitive tool calls wait for approval
+    const { requireApproval, onApprovalRequest } = this.settings;
+    const tools =
+      loopTools && requireApproval
+        ? gateToolsWithApproval(loopTools, {
+            requireApproval,
+            onApprovalRequest,
+            getIteration: () => iteration,
+          })
+        : loopTools;
+
+    const getMetStopConditions = () =>
+      getMetRalphStopConditions({ stopConditions, context: getStopContext() });
+
+    // Record the stop conditions that are met; returns true if the loop should stop
+    const recordStopConditions = (metStopConditions: Array<RalphStopConditionInfo>): boolean => {
+      if (metStopConditions.length === 0) {
+        return false;
+      }
+      completionReason = getStopConditionCompletionReason(metStopConditions);
+      reason = metStopConditions.map(condition => condition.message).join('; ');
+      triggeredStopConditions = metStopConditions;
+      return true;
+    };
+
+    // Verification or a stop condition threw: end the loop like a model
+    // call that is not retried, keeping the completed iterations
+    const failIteration = async (
+      error: unknown,
+      attempt: number
+    ): Promise<RalphIterationErrorEvent> => {
+      const event = {
+        iteration,
+        attempt,
+        model: modelId,
+        error,
+        errorClass: (this.settings.retry?.classifyError ?? classifyError)(error),
+        willRetry: false,
+      };
+      completionReason = 'error';
+      loopError = error;
+      await this.settings.onIterationError?.(event);
+      return { type: 'iteration-error', ...event };
+    };
 
     // Loop until stop condition is met
     while (true) {
+      // A paused run waits here until it is resumed
+      await control?.waitIfPaused();
+
       // Check for abort
       if (abortSignal?.aborted) {
         completionReason = 'aborted';
         break;
       }
 
+      // Stopped between iterations (e.g. while paused)
+      if (control?.stopRequested && allResults.length > 0) {
+        completionReason = 'stopped';
+        break;
+      }
+
       iteration++;
       const startTime = Date.now();
 
       // Call onIterationStart
       await this.settings.onIterationStart?.({ iteration });
+      yield { type: 'iteration-start', iteration };
+
+      // Add the messages steered to this iteration boundary
+      currentMessages = [...currentMessages, ...this.steering.take('next-iteration')];
 
       // Prepare messages with context management
       let messagesToSend: Array<ModelMessage>;
       let summarized = false;
+      let summarization: { usage: LanguageModelUsage; model: string } | undefined;
+      const notesMessage = notes ? toUserMessage(notes.buildContext()) : undefined;
 
       if (this.contextManager) {
         // Use context manager to prepare messages
         const prepared = await this.contextManager.prepareMessagesForIteration(
           currentMessages,
           iteration,
-          model,
+          primaryModel,
           allResults[allResults.length - 1]
         );
         
         messagesToSend = [
           ...systemMessages,
           initialUserMessage,
+          ...(notesMessage ? [notesMessage] : []),
           ...prepared.messages,
         ];
         summarized = prepared.summarized;
 
+        // Summarization calls count toward the totals, but not the iteration's usage
+        if (prepared.summarizationUsage) {
+          summarization = {
+            usage: prepared.summarizationUsage,
+            model: this.getModelId(
+              this.settings.contextManagement?.summarizationModel ?? primaryModel
+            ),
+          };
+          addUsage(summarization.usage, summarization.model);
+        }
+
         // If we summarized, notify
-        if (summarized && this.settings.onContextSummarized) {
+        if (summarized) {
           const budget = this.contextManager.getTokenBudget();
-          await this.settings.onContextSummarized({
+          const summarizedEvent = {
             iteration,
             summarizedIterations: iteration - (this.settings.contextManagement?.recentIterationsToKeep ?? 2),
             tokensSaved: budget.available,
-          });
-        }
-
-        // Add context injection (summaries, change log)
-        const contextInjection = this.contextManager.buildContextInjection();
-        if (contextInjection) {
-          // Append to last system message or create new one
-          if (systemMessages.length > 0) {
-            const lastSystem = messagesToSend.find(m => m.role === 'system');
-            if (lastSystem && typeof lastSystem.content === 'string') {
-              lastSystem.content += contextInjection;
-            }
-          } else {
-            messagesToSend.unshift({
-              role: 'system',
-              content: contextInjection,
-            });
-          }
+          };
+          await this.settings.onContextSummarized?.(summarizedEvent);
+          yield { type: 'context-summarized', ...summarizedEvent };
         }
       } else {
         // No context management - use messages as-is
         messagesToSend = [
           ...systemMessages,
           initialUserMessage,
+          ...(notesMessage ? [notesMessage] : []),
           ...currentMessages,
         ];
       }
 
+      // Add context injection (task checklist, summaries, change log)
+      const contextInjection = this.contextManager
+        ? this.contextManager.buildContextInjection()
+        : formatContextInjection(taskList ? [taskList.buildContext()] : []);
+      if (contextInjection) {
+        // Append to a copy of the first system message, so the injection
+        // does not pile up across iterations, or create one
+        const systemIndex = messagesToSend.findIndex(m => m.role === 'system');
+        const system = messagesToSend[systemIndex];
+        if (system?.role === 'system') {
+          messagesToSend[systemIndex] = { ...system, content: system.content + contextInjection };
+        } else {
+          messagesToSend.unshift({
+            role: 'system',
+            content: contextInjection,
+          });
+        }
+      }
+
+      // Where the conversation history ends (followed by the continuation prompt)
+      const historyEnd = messagesToSend.length;
+
       // If not the first iteration, add continuation prompt
       if (iteration > 1) {
-        messagesToSend.push({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Continue working on the task. The previous attempt was not complete.',
-            },
-          ],
+        const continuation = await (this.settings.continuationPrompt ?? defaultContinuationPrompt)({
+          iteration,
+          verification: lastVerification,
+          totalUsage,
         });
+        if (continuation) {
+          messagesToSend.push(toUserMessage(continuation));
+        }
+
+        const stallNudge = this.getStallNudge(allResults);
+        if (stallNudge) {
+          messagesToSend.push({
+            role: 'user',
+            content: [{ type: 'text', text: stallNudge }],
+          });
+
+          this.contextManager?.addChangeLogEntry({
+            type: 'observation',
+            summary: 'Repeated actions detected',
+            details: stallNudge.slice(0, 200),
+          });
+        }
       }
 
       // Estimate tokens before sending (for debugging/monitoring)
-      if (this.contextManager) {
+      const contextManager = this.contextManager;
+      if (contextManager) {
         const estimatedTokens = messagesToSend.reduce(
-          (sum, m) => sum + estimateMessageTokens(m),
+          (sum, m) => sum + contextManager.countMessageTokens(m),
           0
         );
-        const budget = this.contextManager.getTokenBudget();
+        const budget = contextManager.getTokenBudget();
         
         // Log warning if approaching limit
         if (estimatedTokens > budget.total * 0.9) {
@@ -346,318 +1190,613 @@ export class RalphLoopAgent<TOOLS extends ToolSet = {}> {
         }
       }
 
-      // Create prepareStep that adds cache control for Anthropic models
-      const isAnthropic = this.isAnthropicModel();
-      const userPrepareStep = this.settings.prepareStep;
-      
-      // Helper to add cache control to last message
-      const addCacheControlToMessages = (messages: ModelMessage[]): ModelMessage[] => {
-        if (messages.length === 0) return messages;
-        
-        return messages.map((message: ModelMessage, index: number) => {
-          if (index === messages.length - 1) {
-            return {
-              ...message,
-              providerOptions: {
-                ...message.providerOptions,
-                anthropic: {
-                  ...(message.providerOptions?.anthropic as Record<string, unknown> ?? {}),
-                  cacheControl: { type: 'ephemeral' },
-                },
-              },
-            };
+      // stream(): the stop conditions are checked once per iteration, before
+      // the model call, and the iteration they stop at is handed to the caller
+      let predictedStop: Array<RalphStopConditionInfo> | undefined;
+      try {
+        predictedStop =
+          onFinalStream && !finalStreamStarted ? await getMetStopConditions() : undefined;
+      } catch (error) {
+        if (abortSignal?.aborted) {
+          completionReason = 'aborted';
+        } else {
+          yield await failIteration(error, 1);
+        }
+        break;
+      }
+      const streamAsFinal = predictedStop !== undefined && predictedStop.length > 0;
+
+      // Run the inner tool loop, falling back to the next model and retrying
+      // failed attempts per the retry policy
+      const retry = this.settings.retry;
+      const maxRetries = retry ? (retry.maxRetries ?? 3) : 0;
+      let retries = 0;
+      let modelIndex = 0;
+      let result: GenerateTextResult<TOOLS, never> | undefined;
+      let injection: RalphStepInjection | undefined;
+      const iterationModels = this.getModelChain(escalationState.tier);
+      let attempt = 1;
+
+      for (; ; attempt++) {
+        const iterationModel = iterationModels[modelIndex]!;
+        // Steered messages are added before the next step
+        injection = new RalphStepInjection(this.steering, messagesToSend.length);
+        const callOptions = this.buildCallOptions(
+          messagesToSend,
+          abortSignal,
+          iterationModel,
+          tools,
+          injection,
+          control
+        );
+        lastMessagesSent = messagesToSend;
+
+        try {
+          if (streamAsFinal) {
+            finalStreamStarted = true;
           }
-          return message;
-        });
-      };
-      
-      const prepareStepWithCaching: typeof userPrepareStep = isAnthropic
-        ? async (stepInfo) => {
-            // First apply user's prepareStep if provided
-            const userResult = userPrepareStep ? await userPrepareStep(stepInfo) : {};
-            const messages = userResult?.messages ?? stepInfo.messages;
-            
-            // Add cache control to the last message for Anthropic
-            const cacheControlMessages = addCacheControlToMessages(messages);
-            return { ...userResult, messages: cacheControlMessages };
+          result = yield* this.callModel(callOptions, iteration, {
+            streaming: streaming || streamAsFinal,
+            onStream: streamAsFinal ? onFinalStream : undefined,
+          });
+          modelId = this.getModelId(iterationModel);
+          break;
+        } catch (error) {
+          // The next attempt (or loop) gets the steered messages again
+          injection.cancel();
+          if (abortSignal?.aborted) {
+            completionReason = 'aborted';
+            break;
+          }
+          // The caller of stream() already owns the failed stream
+          if (streamAsFinal) {
+            throw error;
+          }
+
+          const errorClass = (retry?.classifyError ?? classifyError)(error);
+          // Overloaded or unavailable: move on to the next model in the chain
+          const fallback = errorClass === 'retryable' && modelIndex < iterationModels.length - 1;
+          const willRetry = fallback || (errorClass !== 'fatal' && retries < maxRetries);
+          const failedModel = this.getModelId(iterationModel);
+
+          await this.settings.onIterationError?.({
+            iteration,
+            attempt,
+            model: failedModel,
+            error,
+            errorClass,
+            willRetry,
+          });
+          yield {
+            type: 'iteration-error',
+            iteration,
+            attempt,
+            model: failedModel,
+            error,
+            errorClass,
+            willRetry,
+          };
+
+          if (!willRetry) {
+            completionReason = 'error';
+            loopError = error;
+            break;
+          }
+
+          if (fallback) {
+            modelIndex++;
+            continue;
           }
-        : userPrepareStep;
-
-      // Run the inner tool loop
-      const result = (await generateText({
-        model: this.settings.model,
-        messages: messagesToSend,
-        tools: this.settings.tools,
-        toolChoice: this.settings.toolChoice,
-        stopWhen: this.settings.toolStopWhen ?? stepCountIs(20),
-        maxOutputTokens: this.settings.maxOutputTokens,
-        temperature: this.settings.temperature,
-        topP: this.settings.topP,
-        topK: this.settings.topK,
-        presencePenalty: this.settings.presencePenalty,
-        frequencyPenalty: this.settings.frequencyPenalty,
-        stopSequences: this.settings.stopSequences,
-        seed: this.settings.seed,
-        experimental_telemetry: this.settings.experimental_telemetry,
-        activeTools: this.settings.activeTools,
-        prepareStep: prepareStepWithCaching,
-        experimental_repairToolCall: this.settings.experimental_repairToolCall,
-        providerOptions: this.settings.providerOptions,
-        experimental_context: this.settings.experimental_context,
-        abortSignal,
-      })) as GenerateTextResult<TOOLS, never>;
+
+          retries++;
+          // Retries start over with the primary model
+          modelIndex = 0;
+
+          if (errorClass === 'context-overflow') {
+            // Retry right away with the older half of the history dropped
+            const historyStart = messagesToSend.indexOf(notesMessage ?? initialUserMessage) + 1;
+            currentMessages = dropOldestMessages(currentMessages);
+            messagesToSend = [
+              ...messagesToSend.slice(0, historyStart),
+              ...dropOldestMessages(messagesToSend.slice(historyStart, historyEnd)),
+              ...messagesToSend.slice(historyEnd),
+            ];
+          } else {
+            // Resolves early on abort; the next attempt then ends the loop
+            await delay(getRetryDelay(retries, retry), { abortSignal }).catch(() => {});
+          }
+        }
+      }
+
+      if (!result) {
+        break;
+      }
 
       allResults.push(result);
 
       // Update total usage - aggregate from steps for more accurate counts
-      const iterationUsage = aggregateStepUsage(result);
-      totalUsage = addLanguageModelUsage(totalUsage, iterationUsage);
+      addUsage(aggregateStepUsage(result), modelId, result.steps.map(step => step.usage));
 
-      // Add the response messages to conversation history
-      currentMessages = [...currentMessages, ...result.response.messages];
+      // Add the response and steered messages to conversation history
+      // (fresh-context mode keeps only the feedback added below)
+      currentMessages = notes
+        ? []
+        : [...currentMessages, ...injection!.mergeResponse(result.response.messages)];
 
       const duration = Date.now() - startTime;
+      const stats = createIterationStats({
+        iteration,
+        model: modelId,
+        result,
+        duration,
+        summarization,
+      });
+      iterationStats.push(stats);
 
       // Call onIterationEnd
       await this.settings.onIterationEnd?.({
         iteration,
         duration,
+        model: modelId,
         result,
+        stats,
       });
+      yield { type: 'iteration-end', iteration, duration, model: modelId, result, stats };
+
+      let shouldStop = false;
+      let verification: VerifyCompletionResult | undefined;
+      output = undefined;
+
+      try {
+        if (this.settings.verifyCompletion || this.settings.output || taskList) {
+          // Verify completion
+          const checked = await this.verifyIteration(
+            {
+              result,
+              iteration,
+              allResults,
+              originalPrompt: prompt,
+              abortSignal,
+              reportUsage: addUsage,
+            },
+            taskList
+          );
+          verification = checked.verification;
+          output = checked.output;
+          stats.verification = verification;
+          verifications.push(verification);
+          lastVerification = verification;
+          yield { type: 'verification', iteration, verification };
+
+          if (escalationPolicy) {
+            const previousTier = escalationState.tier;
+            escalationState = updateEscalationState(escalationPolicy, escalationState, verification);
+
+            if (escalationState.tier !== previousTier) {
+              const from = this.getModelId(escalationPolicy.models[previousTier]!);
+              const to = this.getModelId(escalationPolicy.models[escalationState.tier]!);
+              this.contextManager?.addChangeLogEntry({
+                type: 'decision',
+                summary: `Escalated from ${from} to ${to}`,
+              });
+              yield { type: 'model-escalated', iteration, from, to };
+            }
+          }
+
+          if (verification.complete) {
+            completionReason = 'verified';
+            reason = verification.reason;
+            shouldStop = true;
+          } else {
+            // If verification provides feedback, add it
+            const feedback = await (this.settings.formatFeedback ?? defaultFormatFeedback)({
+              iteration,
+              verification,
+            });
+            if (feedback) {
+              currentMessages.push(toUserMessage(feedback));
+            }
 
-      // Check stop conditions AFTER running iteration
-      const stopContext: RalphStopConditionContext<TOOLS> = {
+            // Track feedback in context manager
+            if (verification.reason) {
+              this.contextManager?.addChangeLogEntry({
+                type: 'observation',
+                summary: 'Verification feedback received',
+                details: verification.reason.slice(0, 200),
+              });
+            }
+          }
+        }
+
+        // Check stop conditions once per iteration, after the verification
+        // (e.g. verificationFailedTimes() counts the one just added); stream()
+        // checked them before the model call
+        if (!shouldStop) {
+          shouldStop = recordStopConditions(predictedStop ?? (await getMetStopConditions()));
+        }
+      } catch (error) {
+        if (abortSignal?.aborted) {
+          completionReason = 'aborted';
+        } else {
+          yield await failIteration(error, attempt);
+        }
+        shouldStop = true;
+      }
+
+      // stopAfterIteration() was called on the run handle
+      if (!shouldStop && control?.stopRequested) {
+        completionReason = 'stopped';
+        shouldStop = true;
+      }
+
+      // Persist a snapshot so the loop can be resumed after a crash
+      await this.saveCheckpoint({
+        version: RALPH_CHECKPOINT_VERSION,
+        agentId: this.settings.id,
+        runId,
+        prompt,
         iteration,
-        allResults,
+        messages: [...currentMessages],
         totalUsage,
-        model: modelId,
-      };
+        usageByModel: { ...usageByModel },
+        callUsageByModel: callUsageByModel && { ...callUsageByModel },
+        escalation: escalationPolicy ? { ...escalationState } : undefined,
+        tasks: taskList?.getTasks(),
+        notes: notes?.getNotes(),
+        verification,
+        contextState: this.contextManager?.getState(),
+        completionReason: shouldStop ? completionReason : undefined,
+        createdAt: Date.now(),
+      });
 
-      if (await isRalphStopConditionMet({ stopConditions, context: stopContext })) {
-        completionReason = 'max-iterations';
+      if (shouldStop) {
         break;
       }
+    }
 
-      // Verify completion
-      if (this.settings.verifyCompletion) {
-        const verification = await this.settings.verifyCompletion({
-          result,
-          iteration,
-          allResults,
-          originalPrompt: prompt,
-        });
-
-        if (verification.complete) {
-          completionReason = 'verified';
-          reason = verification.reason;
-          break;
-        }
-
-        // If verification provides feedback, add it
-        if (verification.reason && !verification.complete) {
-          currentMessages.push({
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Feedback: ${verification.reason}`,
-              },
-            ],
-          });
+    // Start the next loop one tier lower after a success
+    if (escalationPolicy) {
+      this.escalationTier =
+        completionReason === 'verified' && escalationPolicy.deescalateOnSuccess !== false
+          ? Math.max(0, escalationState.tier - 1)
+          : escalationState.tier;
+    }
 
-          // Track feedback in context manager
-          this.contextManager?.addChangeLogEntry({
-            type: 'observation',
-            summary: 'Verification feedback received',
-            details: verification.reason.slice(0, 200),
-          });
-        }
+    // stream(): the loop ended before a streamed final iteration, so stream a
+    // final response from the resulting conversation
+    if (onFinalStream && !finalStreamStarted) {
+      if (completionReason === 'error') {
+        throw loopError;
       }
+      const lastResult = allResults[allResults.length - 1];
+      const finalMessages = lastMessagesSent && lastResult
+        ? [...lastMessagesSent, ...lastResult.response.messages]
+        : [...systemMessages, initialUserMessage, ...currentMessages];
+      onFinalStream(
+        streamText(
+          this.buildCallOptions(finalMessages, abortSignal, undefined, tools)
+        ) as StreamTextResult<TOOLS, never>
+      );
     }
 
-    const finalResult = allResults[allResults.length - 1]!;
+    const finalResult = allResults[allResults.length - 1];
 
-    return {
-      text: finalResult.text,
-      iterations: iteration,
+    // Aborted before any iteration completed: there is nothing to return
+    if (!finalResult && completionReason === 'aborted') {
+      throw abortSignal?.reason ?? new Error('The loop was aborted before any iteration completed');
+    }
+
+    const loopResult: RalphLoopAgentResult<TOOLS, OUTPUT> = {
+      text: finalResult?.text ?? '',
+      // Without a completed iteration, the failed one is not counted
+      iterations: finalResult ? iteration : iteration - 1,
       completionReason,
+      stop:
+        completionReason === 'stopped' ? 'graceful' : completionReason === 'aborted' ? 'hard' : undefined,
       reason,
+      stopConditions: triggeredStopConditions,
+      error: loopError,
+      output,
+      tasks: taskList?.getTasks(),
+      notes: notes?.getNotes(),
+      iterationStats,
       result: finalResult,
       allResults,
       totalUsage,
+      usageByModel,
+      callUsageByModel,
+      runId,
     };
+
+    yield { type: 'stop', iteration, result: loopResult };
+    return loopResult;
   }
 
   /**
-   * Streams the agent loop. Streams only the final iteration.
-   * For full control, use loop() with callbacks instead.
+   * Build the generateText/streamText options shared by every iteration.
    */
-  async stream({
-    prompt,
-    abortSignal,
-  }: RalphLoopAgentCallParameters): Promise<StreamTextResult<TOOLS, never>> {
-    const allResults: Array<GenerateTextResult<TOOLS, never>> = [];
-    let currentMessages: Array<ModelMessage> = [];
-    let iteration = 0;
-    let totalUsage: LanguageModelUsage = this.createEmptyUsage();
-
-    const stopConditions = this.getStopConditions();
-    const modelId = this.getModelId();
+  /**
+   * The activeTools setting plus the tools the loop adds (e.g. `updateTask`),
+   * which would be filtered out otherwise.
+   */
+  private getActiveTools(tools: TOOLS | undefined): Array<keyof TOOLS> | undefined {
+    const { activeTools, tools: settingsTools } = this.settings;
+    if (!activeTools || !tools) {
+      return activeTools;
+    }
+    const added = Object.keys(tools).filter(name => !settingsTools || !(name in settingsTools));
+    return [...activeTools, ...added];
+  }
 
-    const initialUserMessage: ModelMessage = {
-      role: 'user',
-      content: [{ type: 'text', text: prompt }],
+  private buildCallOptions(
+    messages: Array<ModelMessage>,
+    abortSignal: AbortSignal | undefined,
+    model: LanguageModel | string = this.getModels()[0]!,
+    tools: TOOLS | undefined = this.settings.tools,
+    injection?: RalphStepInjection,
+    control?: RalphLoopRunControl
+  ) {
+    let prepareStep = this.buildPrepareStep(model);
+    if (injection) {
+      prepareStep = injection.wrap(prepareStep);
+    }
+    if (control) {
+      // Pause at step boundaries
+      const innerPrepareStep = prepareStep;
+      prepareStep = async options => {
+        await control.waitIfPaused();
+        return (await innerPrepareStep?.(options)) ?? {};
+      };
+    }
+    return {
+      model,
+      messages,
+      tools,
+      toolChoice: this.settings.toolChoice,
+      stopWhen: this.settings.toolStopWhen ?? stepCountIs(20),
+      maxOutputTokens: this.settings.maxOutputTokens,
+      temperature: this.settings.temperature,
+      topP: this.settings.topP,
+      topK: this.settings.topK,
+      presencePenalty: this.settings.presencePenalty,
+      frequencyPenalty: this.settings.frequencyPenalty,
+      stopSequences: this.settings.stopSequences,
+      seed: this.settings.seed,
+      maxRetries: this.settings.maxRetries,
+      headers: this.settings.headers,
+      experimental_telemetry: this.settings.experimental_telemetry,
+      activeTools: this.getActiveTools(tools),
+      prepareStep,
+      experimental_repairToolCall: this.settings.experimental_repairToolCall,
+      providerOptions: this.settings.providerOptions,
+      experimental_context: this.settings.experimental_context,
+      abortSignal,
     };
+  }
 
-    const systemMessages = this.buildSystemMessages();
+  /**
+   * Create prepareStep that adds cache control for Anthropic models.
+   */
+  private buildPrepareStep(
+    model: LanguageModel | string
+  ): RalphLoopAgentSettings<TOOLS, OUTPUT>['prepareStep'] {
+    const userPrepareStep = this.settings.prepareStep;
 
-    // Run non-streaming iterations until we should stream the final one
-    while (true) {
-      if (abortSignal?.aborted) {
-        break;
-      }
+    if (!this.isAnthropicModel(model)) {
+      return userPrepareStep;
+    }
 
-      iteration++;
+    // Helper to add cache control to last message
+    const addCacheControlToMessages = (messages: ModelMessage[]): ModelMessage[] => {
+      if (messages.length === 0) return messages;
+      
+      return messages.map((message: ModelMessage, index: number) => {
+        if (index === messages.length - 1) {
+          return {
+            ...message,
+            providerOptions: {
+              ...message.providerOptions,
+              anthropic: {
+                ...(message.providerOptions?.anthropic as Record<string, unknown> ?? {}),
+                cacheControl: { type: 'ephemeral' },
+              },
+            },
+          };
+        }
+        return message;
+      });
+    };
 
-      // Check if THIS iteration would be the last (next would hit stop condition)
-      const nextStopContext: RalphStopConditionContext<TOOLS> = {
-        iteration: iteration + 1,
-        allResults,
-        totalUsage,
-        model: modelId,
-      };
+    return async (stepInfo) => {
+      // First apply user's prepareStep if provided
+      const userResult = userPrepareStep ? await userPrepareStep(stepInfo) : {};
+      const messages = userResult?.messages ?? stepInfo.messages;
+      
+      // Add cache control to the last message for Anthropic
+      const cacheControlMessages = addCacheControlToMessages(messages);
+      return { ...userResult, messages: cacheControlMessages };
+    };
+  }
 
-      // If next iteration would stop, stream this one instead
-      if (await isRalphStopConditionMet({ stopConditions, context: nextStopContext })) {
-        break;
-      }
+  /**
+   * Make the model call of an iteration. When streaming, events are yielded
+   * as they arrive and the stream is handed to `onStream` first.
+   */
+  private async *callModel(
+    callOptions: ReturnType<RalphLoopAgent<TOOLS>['buildCallOptions']>,
+    iteration: number,
+    {
+      streaming,
+      onStream,
+    }: {
+      streaming: boolean;
+      onStream?: (stream: StreamTextResult<any, never>) => void;
+    }
+  ): AsyncGenerator<RalphLoopEvent<TOOLS, OUTPUT>, GenerateTextResult<TOOLS, never>> {
+    if (!streaming) {
+      return (await generateText(callOptions)) as GenerateTextResult<TOOLS, never>;
+    }
 
-      const startTime = Date.now();
+    const stream = streamText(callOptions) as StreamTextResult<TOOLS, never>;
+    onStream?.(stream);
 
-      await this.settings.onIterationStart?.({ iteration });
+    for await (const part of stream.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          yield { type: 'text-delta', iteration, text: part.text };
+          break;
+        case 'tool-call':
+          yield { type: 'tool-call', iteration, toolCall: part };
+          break;
+        case 'tool-result':
+          yield { type: 'tool-result', iteration, toolResult: part };
+          break;
+        case 'finish-step':
+          yield {
+            type: 'step-finish',
+            iteration,
+            finishReason: part.finishReason,
+            usage: part.usage,
+          };
+          break;
+        case 'error':
+          throw part.error;
+        case 'abort':
+          throw callOptions.abortSignal?.reason ?? new Error('The operation was aborted');
+      }
+    }
 
-      const messages: Array<ModelMessage> = [
-        ...systemMessages,
-        initialUserMessage,
-        ...currentMessages,
-      ];
+    return new StreamedIterationResult(await stream.steps, await stream.totalUsage);
+  }
 
-      if (iteration > 1) {
-        messages.push({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Continue working on the task. The previous attempt was not complete.',
-            },
-          ],
-        });
+  /**
+   * Hand a checkpoint to the checkpoint callback and store.
+   */
+  private async saveCheckpoint(checkpoint: RalphLoopCheckpoint): Promise<void> {
+    // A failed save loses only the ability to resume, so the loop goes on
+    try {
+      await this.settings.checkpoint?.(checkpoint);
+      if (this.settings.checkpointStore && checkpoint.runId) {
+        await this.settings.checkpointStore.save(checkpoint.runId, checkpoint);
       }
+    } catch (error) {
+      console.warn(`[RalphLoopAgent] Failed to save checkpoint ${checkpoint.iteration}:`, error);
+    }
+  }
 
-      const result = (await generateText({
-        model: this.settings.model,
-        messages,
-        tools: this.settings.tools,
-        toolChoice: this.settings.toolChoice,
-        stopWhen: this.settings.toolStopWhen ?? stepCountIs(20),
-        maxOutputTokens: this.settings.maxOutputTokens,
-        temperature: this.settings.temperature,
-        topP: this.settings.topP,
-        topK: this.settings.topK,
-        presencePenalty: this.settings.presencePenalty,
-        frequencyPenalty: this.settings.frequencyPenalty,
-        stopSequences: this.settings.stopSequences,
-        seed: this.settings.seed,
-        experimental_telemetry: this.settings.experimental_telemetry,
-        activeTools: this.settings.activeTools,
-        prepareStep: this.settings.prepareStep,
-        experimental_repairToolCall: this.settings.experimental_repairToolCall,
-        providerOptions: this.settings.providerOptions,
-        experimental_context: this.settings.experimental_context,
-        abortSignal,
-      })) as GenerateTextResult<TOOLS, never>;
-
-      allResults.push(result);
-      const iterationUsage = aggregateStepUsage(result);
-      totalUsage = addLanguageModelUsage(totalUsage, iterationUsage);
-      currentMessages = [...currentMessages, ...result.response.messages];
+  /**
+   * Streams the agent loop. Streams only the final iteration.
+   * For live progress across every iteration, use streamLoop() instead.
+   *
+   * Runs on the same iteration engine as loop(), so context management,
+   * prompt caching, checkpoints and feedback tracking all apply. The iteration
+   * that the stop conditions say will be the last one is streamed; if the loop
+   * ends earlier (e.g. verification passes), a final response is streamed
+   * from the resulting conversation.
+   */
+  async stream(params: RalphLoopAgentCallParameters): Promise<StreamTextResult<TOOLS, never>> {
+    return new Promise((resolve, reject) => {
+      let handedOff = false;
+
+      this.runLoop({
+        ...this.createLoopState(params),
+        onFinalStream: stream => {
+          handedOff = true;
+          resolve(stream);
+        },
+      }).catch(async error => {
+        if (!handedOff) {
+          reject(error);
+          return;
+        }
+        // The caller already owns the stream, so report the error through the hook
+        if (!this.settings.onError) {
+          console.error('[RalphLoopAgent] Error after streaming the final iteration:', error);
+          return;
+        }
+        await this.settings.onError(error);
+      }).catch(error => {
+        console.error('[RalphLoopAgent] onError failed:', error);
+      });
+    });
+  }
 
-      const duration = Date.now() - startTime;
-      await this.settings.onIterationEnd?.({ iteration, duration, result });
+  /**
+   * Check the task checklist and parse the structured output (if configured),
+   * then run verifyCompletion. Open tasks or a parse error fail the
+   * verification with feedback for the agent.
+   */
+  private async verifyIteration(
+    context: VerifyCompletionContext<TOOLS>,
+    taskList: RalphTaskList | null
+  ): Promise<{ verification: VerifyCompletionResult; output?: OUTPUT }> {
+    let output: OUTPUT | undefined;
+
+    if (taskList) {
+      const tasksVerification = taskList.verify();
+      if (!tasksVerification.complete) {
+        return { verification: tasksVerification };
+      }
+    }
 
-      if (this.settings.verifyCompletion) {
-        const verification = await this.settings.verifyCompletion({
-          result,
-          iteration,
-          allResults,
-          originalPrompt: prompt,
-        });
+    if (this.settings.output) {
+      const parsed = await safeParseJSON({
+        text: extractJsonText(context.result.text),
+        schema: this.settings.output,
+      });
+      if (!parsed.success) {
+        return {
+          verification: {
+            complete: false,
+            reason: `The final response must be JSON matching the output schema:\n${formatSchemaError(parsed.error)}`,
+          },
+        };
+      }
+      output = parsed.value;
+    }
 
-        if (verification.complete) {
-          // Complete early - return a stream for the final message
-          return streamText({
-            model: this.settings.model,
-            messages: [...systemMessages, initialUserMessage, ...currentMessages],
-            tools: this.settings.tools,
-            toolChoice: this.settings.toolChoice,
-            stopWhen: this.settings.toolStopWhen ?? stepCountIs(20),
-            maxOutputTokens: this.settings.maxOutputTokens,
-            temperature: this.settings.temperature,
-            abortSignal,
-          }) as StreamTextResult<TOOLS, never>;
-        }
+    const verification = this.settings.verifyCompletion
+      ? await this.settings.verifyCompletion(context)
+      : { complete: true, reason: taskList ? 'All tasks are done' : undefined };
+    return { verification, output };
+  }
 
-        if (verification.reason) {
-          currentMessages.push({
-            role: 'user',
-            content: [{ type: 'text', text: `Feedback: ${verification.reason}` }],
-          });
-        }
-      }
+  /**
+   * Create the task checklist of a run (checklist mode), restored from a
+   * checkpoint or built from the `tasks` setting.
+   */
+  private createTaskList(prompt: string, restored?: Array<RalphTask>): RalphTaskList | null {
+    const { tasks } = this.settings;
+    if (!tasks) {
+      return null;
+    }
+    if (restored) {
+      return new RalphTaskList(restored);
     }
 
-    // Stream the final iteration
-    iteration++;
-    const finalMessages: Array<ModelMessage> = [
-      ...systemMessages,
-      initialUserMessage,
-      ...currentMessages,
-    ];
+    const inputs = tasks === 'from-prompt' ? extractTasksFromPrompt(prompt) : tasks;
+    if (inputs.length === 0) {
+      console.warn('[RalphLoopAgent] No tasks found in the prompt; running without a checklist');
+      return null;
+    }
+    return new RalphTaskList(inputs);
+  }
 
-    if (iteration > 1) {
-      finalMessages.push({
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: 'Continue working on the task. The previous attempt was not complete.',
-          },
-        ],
-      });
+  /**
+   * Tell the model which JSON schema its final response must match.
+   */
+  private async buildOutputInstructions(): Promise<Array<ModelMessage>> {
+    if (!this.settings.output) {
+      return [];
     }
 
-    return streamText({
-      model: this.settings.model,
-      messages: finalMessages,
-      tools: this.settings.tools,
-      toolChoice: this.settings.toolChoice,
-      stopWhen: this.settings.toolStopWhen ?? stepCountIs(20),
-      maxOutputTokens: this.settings.maxOutputTokens,
-      temperature: this.settings.temperature,
-      topP: this.settings.topP,
-      topK: this.settings.topK,
-      presencePenalty: this.settings.presencePenalty,
-      frequencyPenalty: this.settings.frequencyPenalty,
-      stopSequences: this.settings.stopSequences,
-      seed: this.settings.seed,
-      experimental_telemetry: this.settings.experimental_telemetry,
-      activeTools: this.settings.activeTools,
-      prepareStep: this.settings.prepareStep,
-      experimental_repairToolCall: this.settings.experimental_repairToolCall,
-      providerOptions: this.settings.providerOptions,
-      experimental_context: this.settings.experimental_context,
-      abortSignal,
-    }) as StreamTextResult<TOOLS, never>;
+    const schema = await asSchema(this.settings.output).jsonSchema;
+    return [
+      {
+        role: 'system',
+        content: `When the task is complete, respond with only a JSON object that matches this JSON schema:\n${JSON.stringify(schema, null, 2)}`,
+      },
+    ];
   }
 
   /**
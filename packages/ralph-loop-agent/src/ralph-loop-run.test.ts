@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { tool, type Tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import type { RalphLoopRun, RalphLoopRunState } from './ralph-loop-run';
+import { iterationCountIs } from './ralph-stop-condition';
+import { textResponse, toolCallResponse } from './test-utils';
+
+// Every iteration calls the check tool, then answers with text
+const createModel = () => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async ({ abortSignal }) => {
+      abortSignal?.throwIfAborted();
+      return ++call % 2 === 1
+        ? toolCallResponse([{ toolName: 'check', input: {}, toolCallId: `call-${call}` }])
+        : textResponse(`Answer ${call}`);
+    },
+  });
+};
+
+type CheckTools = { check: Tool<Record<string, never>, { ok: boolean }> };
+
+// Calls `onCheck` with the run whenever the check tool runs
+const startRun = (onCheck: (run: RalphLoopRun<CheckTools>, iteration: number) => void) => {
+  const model = createModel();
+  let iteration = 0;
+  let run: RalphLoopRun<CheckTools>;
+
+  const agent = new RalphLoopAgent({
+    model,
+    maxRetries: 0,
+    tools: {
+      check: tool({
+        inputSchema: z.object({}),
+        execute: async () => {
+          onCheck(run, iteration);
+          return { ok: true };
+        },
+      }),
+    },
+    stopWhen: iterationCountIs(5),
+    verifyCompletion: () => ({ complete: false }),
+    onIterationStart: event => {
+      iteration = event.iteration;
+    },
+  });
+
+  run = agent.start({ prompt: 'Check everything' });
+  const states: Array<RalphLoopRunState> = [];
+  run.onStateChange(({ state }) => states.push(state));
+  return { run, model, states };
+};
+
+describe('agent.start', () => {
+  it('should stop gracefully after the current iteration', async () => {
+    const { run, model, states } = startRun((run, iteration) => {
+      if (iteration === 2) {
+        run.stopAfterIteration();
+      }
+    });
+
+    const result = await run.result;
+
+    expect(result.completionReason).toBe('stopped');
+    expect(result.stop).toBe('graceful');
+    expect(result.iterations).toBe(2);
+    // The second iteration finished its last step
+    expect(model.doGenerateCalls).toHaveLength(4);
+    expect(states).toEqual(['stopping', 'finished']);
+  });
+
+  it('should pause at the next step boundary until resumed', async () => {
+    const { run, model, states } = startRun((run, iteration) => {
+      if (iteration === 1) {
+        run.pause();
+      }
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(run.state).toBe('paused');
+    expect(model.doGenerateCalls).toHaveLength(1);
+
+    run.resume();
+    const result = await run.result;
+
+    expect(result.completionReason).toBe('max-iterations');
+    expect(result.stop).toBeUndefined();
+    expect(states).toEqual(['pausing', 'paused', 'running', 'finished']);
+  });
+
+  it('should abort a paused run as a hard stop', async () => {
+    const { run, states } = startRun((run, iteration) => {
+      if (iteration === 2) {
+        run.pause();
+      }
+    });
+
+    while (run.state !== 'paused') {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    run.abort();
+    const result = await run.result;
+
+    expect(result.completionReason).toBe('aborted');
+    expect(result.stop).toBe('hard');
+    expect(result.allResults).toHaveLength(1);
+    expect(states).toEqual(['pausing', 'paused', 'aborting', 'finished']);
+  });
+
+  it('should report aborting for an abort signal that was aborted already', async () => {
+    const agent = new RalphLoopAgent({ model: createModel() });
+
+    const run = agent.start({ prompt: 'Check everything', abortSignal: AbortSignal.abort() });
+    const states: Array<RalphLoopRunState> = [];
+    run.onStateChange(({ state }) => states.push(state));
+
+    await expect(run.result).rejects.toThrow();
+    expect(states).toEqual(['aborting', 'finished']);
+  });
+});
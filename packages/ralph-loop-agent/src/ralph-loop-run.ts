@@ -0,0 +1,205 @@
+import type { ToolSet } from 'ai';
+import type { RalphLoopAgentResult } from './ralph-loop-agent';
+
+/**
+ * State of a loop started with `RalphLoopAgent.start()`:
+ * - `running`: iterating
+ * - `pausing`: pause() was called; the loop pauses at the next step boundary
+ * - `paused`: waiting for resume()
+ * - `stopping`: stopAfterIteration() was called; the loop ends after the current iteration
+ * - `aborting`: abort() was called or the abort signal fired; the loop ends as soon as possible
+ * - `finished`: the loop has ended (see the result for why)
+ */
+export type RalphLoopRunState =
+  | 'running'
+  | 'pausing'
+  | 'paused'
+  | 'stopping'
+  | 'aborting'
+  | 'finished';
+
+/**
+ * Emitted when the state of a run changes.
+ */
+export type RalphLoopRunStateChange = {
+  readonly state: RalphLoopRunState;
+  readonly previousState: RalphLoopRunState;
+};
+
+/**
+ * What the loop engine checks between steps and iterations.
+ */
+export interface RalphLoopRunControl {
+  /**
+   * Resolves right away unless the run is pausing or paused; then it
+   * resolves once the run is resumed, stopped or aborted.
+   */
+  waitIfPaused(): Promise<void>;
+
+  /**
+   * Whether the loop should end after the current iteration.
+   */
+  readonly stopRequested: boolean;
+}
+
+/**
+ * Handle of a loop started with `RalphLoopAgent.start()`: controls the running
+ * loop and holds its result.
+ *
+ * @example
+ * ```ts
+ * const run = agent.start({ prompt: 'Migrate the tests to Vitest' });
+ * run.onStateChange(({ state }) => console.log(`Loop is ${state}`));
+ *
+ * run.pause();   // at the next step boundary
+ * run.resume();
+ * run.stopAfterIteration();
+ *
+ * const result = await run.result;
+ * ```
+ */
+export class RalphLoopRun<TOOLS extends ToolSet = {}, OUTPUT = never>
+  implements RalphLoopRunControl
+{
+  /**
+   * Resolves with the loop result once the loop has ended.
+   */
+  readonly result: Promise<RalphLoopAgentResult<TOOLS, OUTPUT>>;
+
+  private currentState: RalphLoopRunState = 'running';
+  private readonly controller = new AbortController();
+  private readonly listeners = new Set<(change: RalphLoopRunStateChange) => void>();
+  private releasePause: (() => void) | undefined;
+  private pausePromise: Promise<void> | undefined;
+
+  /**
+   * @param run - Runs the loop with this handle as its control and the given abort signal.
+   * @param abortSignal - The caller's abort signal; aborts the run as well.
+   */
+  constructor(
+    run: (
+      control: RalphLoopRunControl,
+      abortSignal: AbortSignal
+    ) => Promise<RalphLoopAgentResult<TOOLS, OUTPUT>>,
+    abortSignal?: AbortSignal
+  ) {
+    const signal = abortSignal
+      ? AbortSignal.any([abortSignal, this.controller.signal])
+      : this.controller.signal;
+    signal.addEventListener(
+      'abort',
+      () => {
+        this.release();
+        if (this.currentState !== 'finished') {
+          this.setState('aborting');
+        }
+      },
+      { once: true }
+    );
+
+    // Start on the next tick, so listeners can be added first
+    this.result = Promise.resolve()
+      .then(() => {
+        // The abort event does not fire for a signal that was aborted already
+        if (signal.aborted) {
+          this.setState('aborting');
+        }
+        return run(this, signal);
+      })
+      .finally(() => {
+        this.release();
+        this.setState('finished');
+      });
+  }
+
+  /**
+   * The current state.
+   */
+  get state(): RalphLoopRunState {
+    return this.currentState;
+  }
+
+  get stopRequested(): boolean {
+    return this.currentState === 'stopping';
+  }
+
+  /**
+   * Listen for state changes. Returns a function that removes the listener.
+   */
+  onStateChange(listener: (change: RalphLoopRunStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pause the loop at the next step boundary (before the next model call).
+   */
+  pause(): void {
+    if (this.currentState === 'running') {
+      this.pausePromise = new Promise(resolve => {
+        this.releasePause = resolve;
+      });
+      this.setState('pausing');
+    }
+  }
+
+  /**
+   * Continue a pausing or paused loop.
+   */
+  resume(): void {
+    if (this.currentState === 'pausing' || this.currentState === 'paused') {
+      this.release();
+      this.setState('running');
+    }
+  }
+
+  /**
+   * End the loop once the current iteration is done (a graceful stop).
+   * A paused loop continues to finish its iteration.
+   */
+  stopAfterIteration(): void {
+    if (
+      this.currentState === 'running' ||
+      this.currentState === 'pausing' ||
+      this.currentState === 'paused'
+    ) {
+      this.release();
+      this.setState('stopping');
+    }
+  }
+
+  /**
+   * End the loop right away, interrupting the current iteration (a hard stop).
+   */
+  abort(reason?: unknown): void {
+    if (this.currentState !== 'finished') {
+      this.controller.abort(reason);
+    }
+  }
+
+  async waitIfPaused(): Promise<void> {
+    if (this.currentState === 'pausing') {
+      this.setState('paused');
+    }
+    await this.pausePromise;
+  }
+
+  private release(): void {
+    this.releasePause?.();
+    this.releasePause = undefined;
+    this.pausePromise = undefined;
+  }
+
+  private setState(state: RalphLoopRunState): void {
+    const previousState = this.currentState;
+    if (state === previousState) {
+      return;
+    }
+    this.currentState = state;
+    for (const listener of this.listeners) {
+      listener({ state, previousState });
+    }
+  }
+}
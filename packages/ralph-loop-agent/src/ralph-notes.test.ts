@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { RalphProgressNotes } from './ralph-notes';
+import { iterationCountIs } from './ralph-stop-condition';
+import { textResponse, toolCallResponse } from './test-utils';
+
+describe('RalphProgressNotes', () => {
+  it('should append to and replace the notes', () => {
+    const notes = new RalphProgressNotes();
+    expect(notes.buildContext()).toContain('No notes yet.');
+
+    notes.write('Added the users table');
+    notes.write('  Backfill is slow  ');
+    expect(notes.getNotes()).toBe('Added the users table\nBackfill is slow');
+
+    notes.write('Only the legacy table is left', 'replace');
+    expect(notes.buildContext()).toContain('## Progress notes\nOnly the legacy table is left');
+  });
+});
+
+describe('fresh-context mode', () => {
+  // Writes a note, then answers with text, in every iteration
+  const createModel = () => {
+    let call = 0;
+    return new MockLanguageModelV3({
+      doGenerate: async () => {
+        call++;
+        if (call % 2 === 1) {
+          return toolCallResponse([
+            {
+              toolName: 'updateNotes',
+              input: { content: `Note ${(call + 1) / 2}` },
+              toolCallId: `call-${call}`,
+            },
+          ]);
+        }
+        return textResponse(`Answer ${call / 2}`);
+      },
+    });
+  };
+
+  it('should start every iteration from the prompt, the notes and the last feedback', async () => {
+    const mockModel = createModel();
+    let verifications = 0;
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      instructions: 'You are a migration agent.',
+      contextStrategy: 'fresh',
+      continuationPrompt: () => undefined,
+      stopWhen: iterationCountIs(5),
+      verifyCompletion: () =>
+        ++verifications < 3
+          ? { complete: false, reason: `Check ${verifications} failed` }
+          : { complete: true },
+    });
+
+    const result = await agent.loop({ prompt: 'Migrate the database' });
+
+    expect(result.completionReason).toBe('verified');
+    expect(result.iterations).toBe(3);
+    expect(result.notes).toBe('Note 1\nNote 2\nNote 3');
+
+    const thirdIteration = mockModel.doGenerateCalls[4]!.prompt;
+    expect(thirdIteration.map(message => message.role)).toEqual([
+      'system',
+      'user',
+      'user',
+      'user',
+    ]);
+    const text = JSON.stringify(thirdIteration);
+    expect(text).toContain('Note 1\\nNote 2');
+    expect(text).toContain('Check 2 failed');
+    expect(text).not.toContain('Check 1 failed');
+    expect(text).not.toContain('Answer');
+  });
+
+  it('should keep the conversation in accumulate mode', async () => {
+    const mockModel = createModel();
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      stopWhen: iterationCountIs(2),
+      verifyCompletion: () => ({ complete: false }),
+    });
+
+    const result = await agent.loop({ prompt: 'Migrate the database' });
+
+    expect(result.notes).toBeUndefined();
+    expect(JSON.stringify(mockModel.doGenerateCalls[2]!.prompt)).toContain('Answer 1');
+  });
+});
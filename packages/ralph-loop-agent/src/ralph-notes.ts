@@ -0,0 +1,67 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Progress notes of a loop in fresh-context mode.
+ *
+ * Each iteration starts from a clean context, so the notes are the agent's
+ * memory between iterations: it writes them with the `updateNotes` tool and
+ * they are shown to it at the start of every iteration.
+ */
+export class RalphProgressNotes {
+  private notes: string;
+
+  constructor(notes = '') {
+    this.notes = notes;
+  }
+
+  /**
+   * The current notes.
+   */
+  getNotes(): string {
+    return this.notes;
+  }
+
+  /**
+   * Append to the notes, or replace them.
+   */
+  write(content: string, mode: 'append' | 'replace' = 'append'): string {
+    this.notes =
+      mode === 'replace' || !this.notes ? content.trim() : `${this.notes}\n${content.trim()}`;
+    return this.notes;
+  }
+
+  /**
+   * Describe the notes for the start of an iteration.
+   */
+  buildContext(): string {
+    return [
+      '## Progress notes',
+      this.notes || 'No notes yet.',
+      'Each iteration starts without the previous conversation. Use updateNotes to record what you did, what you learned and what is left.',
+    ].join('\n');
+  }
+
+  /**
+   * Tools for the agent to write the notes.
+   */
+  createTools() {
+    return {
+      updateNotes: tool({
+        description:
+          'Write to your progress notes. They are the only thing besides the task and the latest feedback that the next iteration sees.',
+        inputSchema: z.object({
+          content: z.string().describe('What you did, what you learned and what is left'),
+          mode: z
+            .enum(['append', 'replace'])
+            .optional()
+            .describe('Append to the notes (default) or replace them'),
+        }),
+        execute: async ({ content, mode }) => ({
+          success: true,
+          length: this.write(content, mode).length,
+        }),
+      }),
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { LanguageModelUsage } from 'ai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  calculateCost,
+  getModelPricing,
+  loadModelPricing,
+  registerModelPricing,
+  resolveModelPricing,
+  setUnknownModelBehavior,
+} from './ralph-pricing';
+import { costIs } from './ralph-stop-condition';
+import { createStopContext, createUsage } from './test-utils';
+
+const sonnet = getModelPricing('anthropic/claude-sonnet-4.5');
+
+describe('getModelPricing', () => {
+  it('should resolve provider-less, dashed and dated ids', () => {
+    expect(getModelPricing('claude-sonnet-4-5-20250929')).toBe(sonnet);
+    expect(getModelPricing('claude-sonnet-4-5@20250929')).toBe(sonnet);
+    expect(getModelPricing('anthropic/claude-sonnet-4-5-latest')).toBe(sonnet);
+    expect(getModelPricing('gpt-4o-mini-2024-07-18')).toBe(getModelPricing('openai/gpt-4o-mini'));
+  });
+
+  it('should prefer the dated id when it has its own pricing', () => {
+    expect(getModelPricing('claude-3-5-sonnet-20241022')).toBe(
+      getModelPricing('anthropic/claude-3.5-sonnet-20241022')
+    );
+    expect(getModelPricing('claude-3-5-sonnet-20240620')).toBe(
+      getModelPricing('anthropic/claude-3.5-sonnet')
+    );
+  });
+
+  it('should resolve preview ids', () => {
+    expect(getModelPricing('openai/gpt-4o-preview')).toBe(getModelPricing('openai/gpt-4o'));
+    expect(getModelPricing('gpt-4o-mini-preview-2024-07-18')).toBe(getModelPricing('openai/gpt-4o-mini'));
+    expect(getModelPricing('google/gemini-2.5-flash-20250514-preview')).toBe(
+      getModelPricing('google/gemini-2.5-flash')
+    );
+    expect(getModelPricing('openai/gpt-4o-0613')).toBe(getModelPricing('openai/gpt-4o'));
+  });
+
+  it('should use the longest registered prefix', () => {
+    const custom = { inputCostPerMillionTokens: 1, outputCostPerMillionTokens: 2 };
+    registerModelPricing('acme/coder-preview', custom);
+    registerModelPricing('acme/coder', { inputCostPerMillionTokens: 9, outputCostPerMillionTokens: 9 });
+
+    expect(getModelPricing('acme/coder-preview-20250101')).toBe(custom);
+  });
+
+  it('should not price other variants like their base model', () => {
+    expect(getModelPricing('openai/o1-pro')).toBeUndefined();
+    expect(getModelPricing('anthropic/claude-opus-4-6')).toBeUndefined();
+    expect(getModelPricing('openai/gpt-4o-audio-preview')).toBeUndefined();
+    expect(getModelPricing('gpt-4oo')).toBeUndefined();
+    expect(getModelPricing('llama3.1:8b')).toBeUndefined();
+  });
+});
+
+describe('registerModelPricing', () => {
+  it('should register pricing with aliases, overriding fuzzy matches', () => {
+    const rates = { inputCostPerMillionTokens: 2, outputCostPerMillionTokens: 8 };
+    registerModelPricing('acme/coder-large', rates, { aliases: ['coder-xl'] });
+
+    expect(getModelPricing('acme/coder-large')).toBe(rates);
+    expect(getModelPricing('coder-xl')).toBe(rates);
+    expect(getModelPricing('coder-large-20250101')).toBe(rates);
+
+    const preview = { inputCostPerMillionTokens: 0.5, outputCostPerMillionTokens: 1 };
+    registerModelPricing('gpt-4o-audio-preview', preview);
+    expect(getModelPricing('openai/gpt-4o-audio-preview')).toBe(preview);
+  });
+
+  it('should match regular expressions', () => {
+    const free = { inputCostPerMillionTokens: 0, outputCostPerMillionTokens: 0 };
+    registerModelPricing(/^ollama\//, free);
+
+    expect(getModelPricing('ollama/qwen2.5-coder')).toBe(free);
+  });
+});
+
+describe('loadModelPricing', () => {
+  const writePricingFile = async (content: unknown) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-pricing-'));
+    const filePath = path.join(dir, 'pricing.json');
+    await fs.writeFile(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  it('should register the pricing in a JSON file', async () => {
+    const filePath = await writePricingFile({
+      'mistral/mistral-large': {
+        inputCostPerMillionTokens: 2,
+        outputCostPerMillionTokens: 6,
+        aliases: ['mistral-large-2411'],
+        tiers: [{ aboveInputTokens: 100_000, inputCostPerMillionTokens: 4 }],
+      },
+    });
+
+    await loadModelPricing(filePath);
+
+    expect(getModelPricing('mistral-large-2411')).toEqual({
+      inputCostPerMillionTokens: 2,
+      outputCostPerMillionTokens: 6,
+      tiers: [{ aboveInputTokens: 100_000, inputCostPerMillionTokens: 4 }],
+    });
+  });
+
+  it('should reject invalid rates without registering anything', async () => {
+    const filePath = await writePricingFile({
+      'valid/model': { inputCostPerMillionTokens: 1, outputCostPerMillionTokens: 1 },
+      'invalid/model': { inputCostPerMillionTokens: '1', outputCostPerMillionTokens: 1 },
+    });
+
+    await expect(loadModelPricing(filePath)).rejects.toThrow('Invalid pricing for "invalid/model"');
+    expect(getModelPricing('valid/model')).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  const rates = {
+    inputCostPerMillionTokens: 3,
+    outputCostPerMillionTokens: 15,
+    tiers: [
+      { aboveInputTokens: 200_000, inputCostPerMillionTokens: 6, outputCostPerMillionTokens: 22.5 },
+    ],
+  };
+
+  it('should apply tiers per model call', () => {
+    // 250k input tokens at $6, 100k at $3; 1M output tokens each
+    const calls = [createUsage(250_000, 1_000_000), createUsage(100_000, 1_000_000)];
+    expect(calculateCost(calls, rates)).toBeCloseTo(1.5 + 22.5 + 0.3 + 15);
+    // A call at exactly the threshold gets the base rates
+    expect(calculateCost([createUsage(200_000, 0)], rates)).toBeCloseTo(0.6);
+    // So does a usage total
+    expect(calculateCost(createUsage(250_000, 0), rates)).toBeCloseTo(0.75);
+  });
+
+  it('should price reasoning tokens at the reasoning rate', () => {
+    const flash = getModelPricing('google/gemini-2.5-flash')!;
+
+    // 400k text tokens at $0.60, 600k reasoning tokens at $3.50
+    expect(calculateCost(createUsage(0, 1_000_000, 600_000), flash)).toBeCloseTo(0.24 + 2.1);
+    // Without a reasoning rate, reasoning tokens are output tokens
+    expect(calculateCost(createUsage(0, 1_000_000, 600_000), rates)).toBeCloseTo(15);
+  });
+
+  it('should apply tiers per call in costIs', () => {
+    const sonnetContext = (calls?: Array<LanguageModelUsage>) =>
+      createStopContext({
+        totalUsage: createUsage(500_000, 0),
+        model: 'anthropic/claude-sonnet-4.5',
+        usageByModel: { 'anthropic/claude-sonnet-4.5': createUsage(500_000, 0) },
+        callUsageByModel: calls && { 'anthropic/claude-sonnet-4.5': calls },
+      });
+
+    // One call above 200k: $6 per million
+    expect(costIs(3)(sonnetContext([createUsage(500_000, 0)]))).toBe(true);
+    // Calls up to 200k: $3 per million
+    const calls = [createUsage(200_000, 0), createUsage(200_000, 0), createUsage(100_000, 0)];
+    expect(costIs(1.51)(sonnetContext(calls))).toBe(false);
+    // Usage totals get the base rates
+    expect(costIs(1.51)(sonnetContext())).toBe(false);
+  });
+});
+
+describe('unknown models', () => {
+  afterEach(() => {
+    setUnknownModelBehavior('throw');
+    vi.restoreAllMocks();
+  });
+
+  const context = createStopContext({
+    totalUsage: createUsage(1_000_000),
+    model: 'local/my-model',
+  });
+
+  it('should throw by default', () => {
+    expect(() => costIs(1)(context)).toThrow('Unknown model "local/my-model"');
+  });
+
+  it('should warn once and count the usage as free', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setUnknownModelBehavior('warn');
+
+    expect(costIs(0.01)(context)).toBe(false);
+    expect(costIs(0.01)(context)).toBe(false);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('should let costIs override the behavior', () => {
+    expect(costIs(0.01, undefined, { onUnknownModel: 'zero' })(context)).toBe(false);
+    expect(resolveModelPricing('local/my-model', 'zero').inputCostPerMillionTokens).toBe(0);
+  });
+});
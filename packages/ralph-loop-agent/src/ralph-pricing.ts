@@ -0,0 +1,430 @@
+import type { LanguageModelUsage } from 'ai';
+import * as fs from 'node:fs/promises';
+
+/**
+ * Cost rates per million tokens.
+ */
+export type CostRates = {
+  inputCostPerMillionTokens: number;
+  outputCostPerMillionTokens: number;
+  cacheReadCostPerMillionTokens?: number;
+  cacheWriteCostPerMillionTokens?: number;
+  /** Rate for reasoning tokens; defaults to the output rate. */
+  reasoningCostPerMillionTokens?: number;
+  /**
+   * Higher rates for model calls with large inputs (long-context pricing).
+   * A call is priced at the tier with the highest threshold below its input
+   * tokens, including cached tokens.
+   */
+  tiers?: Array<CostRateTier>;
+};
+
+/**
+ * Rates that apply to model calls with more than `aboveInputTokens` input
+ * tokens. Rates left out are taken from the base rates.
+ */
+export type CostRateTier = Partial<Omit<CostRates, 'tiers'>> & {
+  aboveInputTokens: number;
+};
+
+// Anthropic charges more for calls above 200k input tokens
+const ANTHROPIC_LONG_CONTEXT_TIER: CostRateTier = {
+  aboveInputTokens: 200_000,
+  inputCostPerMillionTokens: 6.0,
+  outputCostPerMillionTokens: 22.5,
+  cacheReadCostPerMillionTokens: 0.60,
+  cacheWriteCostPerMillionTokens: 7.50,
+};
+
+/**
+ * Pricing for common models (cost per million tokens in USD).
+ */
+const MODEL_PRICING: Readonly<Record<string, CostRates>> = {
+  // Anthropic - Haiku models
+  'anthropic/claude-3-haiku': { 
+    inputCostPerMillionTokens: 0.25, 
+    outputCostPerMillionTokens: 1.25,
+    cacheReadCostPerMillionTokens: 0.03,
+    cacheWriteCostPerMillionTokens: 0.30,
+  },
+  'anthropic/claude-3.5-haiku': { 
+    inputCostPerMillionTokens: 0.80, 
+    outputCostPerMillionTokens: 4.00,
+    cacheReadCostPerMillionTokens: 0.08,
+    cacheWriteCostPerMillionTokens: 1.00,
+  },
+  'anthropic/claude-haiku-4.5': { 
+    inputCostPerMillionTokens: 1.00, 
+    outputCostPerMillionTokens: 5.00,
+    cacheReadCostPerMillionTokens: 0.10,
+    cacheWriteCostPerMillionTokens: 1.25,
+  },
+  // Anthropic - Sonnet models
+  'anthropic/claude-sonnet-4.5': { 
+    inputCostPerMillionTokens: 3.0, 
+    outputCostPerMillionTokens: 15.0,
+    cacheReadCostPerMillionTokens: 0.30,
+    cacheWriteCostPerMillionTokens: 3.75,
+    tiers: [ANTHROPIC_LONG_CONTEXT_TIER],
+  },
+  'anthropic/claude-3.7-sonnet': { 
+    inputCostPerMillionTokens: 3.0, 
+    outputCostPerMillionTokens: 15.0,
+    cacheReadCostPerMillionTokens: 0.30,
+    cacheWriteCostPerMillionTokens: 3.75,
+  },
+  'anthropic/claude-sonnet-4': { 
+    inputCostPerMillionTokens: 3.0, 
+    outputCostPerMillionTokens: 15.0,
+    cacheReadCostPerMillionTokens: 0.30,
+    cacheWriteCostPerMillionTokens: 3.75,
+    tiers: [ANTHROPIC_LONG_CONTEXT_TIER],
+  },
+  'anthropic/claude-3.5-sonnet': { 
+    inputCostPerMillionTokens: 3.0, 
+    outputCostPerMillionTokens: 15.0,
+    cacheReadCostPerMillionTokens: 0.30,
+    cacheWriteCostPerMillionTokens: 3.75,
+  },
+  'anthropic/claude-3.5-sonnet-20241022': { 
+    inputCostPerMillionTokens: 3.0, 
+    outputCostPerMillionTokens: 15.0,
+    // No caching for this model
+  },
+  // Anthropic - Opus models
+  'anthropic/claude-opus-4.5': { 
+    inputCostPerMillionTokens: 5.0, 
+    outputCostPerMillionTokens: 25.0,
+    cacheReadCostPerMillionTokens: 0.50,
+    cacheWriteCostPerMillionTokens: 6.25,
+  },
+  'anthropic/claude-opus-4.1': { 
+    inputCostPerMillionTokens: 15.0, 
+    outputCostPerMillionTokens: 75.0,
+    cacheReadCostPerMillionTokens: 1.50,
+    cacheWriteCostPerMillionTokens: 18.75,
+  },
+  'anthropic/claude-opus-4': { 
+    inputCostPerMillionTokens: 15.0, 
+    outputCostPerMillionTokens: 75.0,
+    cacheReadCostPerMillionTokens: 1.50,
+    cacheWriteCostPerMillionTokens: 18.75,
+  },
+  'anthropic/claude-3-opus': { 
+    inputCostPerMillionTokens: 15.0, 
+    outputCostPerMillionTokens: 75.0,
+    // No caching for this model
+  },
+  // OpenAI
+  'openai/gpt-4o': { inputCostPerMillionTokens: 2.5, outputCostPerMillionTokens: 10.0 },
+  'openai/gpt-4o-mini': { inputCostPerMillionTokens: 0.15, outputCostPerMillionTokens: 0.6 },
+  'openai/gpt-4-turbo': { inputCostPerMillionTokens: 10.0, outputCostPerMillionTokens: 30.0 },
+  'openai/o1': { inputCostPerMillionTokens: 15.0, outputCostPerMillionTokens: 60.0 },
+  'openai/o1-mini': { inputCostPerMillionTokens: 1.1, outputCostPerMillionTokens: 4.4 },
+  'openai/o3-mini': { inputCostPerMillionTokens: 1.1, outputCostPerMillionTokens: 4.4 },
+  // Google
+  'google/gemini-2.5-pro': {
+    inputCostPerMillionTokens: 1.25,
+    outputCostPerMillionTokens: 10.0,
+    tiers: [
+      { aboveInputTokens: 200_000, inputCostPerMillionTokens: 2.5, outputCostPerMillionTokens: 15.0 },
+    ],
+  },
+  'google/gemini-2.5-flash': {
+    inputCostPerMillionTokens: 0.15,
+    outputCostPerMillionTokens: 0.6,
+    reasoningCostPerMillionTokens: 3.5,
+  },
+  'google/gemini-2.0-flash': { inputCostPerMillionTokens: 0.1, outputCostPerMillionTokens: 0.4 },
+  // xAI
+  'xai/grok-3': { inputCostPerMillionTokens: 3.0, outputCostPerMillionTokens: 15.0 },
+  'xai/grok-3-mini': { inputCostPerMillionTokens: 0.3, outputCostPerMillionTokens: 0.5 },
+  // DeepSeek
+  'deepseek/deepseek-chat': { inputCostPerMillionTokens: 0.14, outputCostPerMillionTokens: 0.28 },
+  'deepseek/deepseek-reasoner': { inputCostPerMillionTokens: 0.55, outputCostPerMillionTokens: 2.19 },
+};
+
+/**
+ * What to do when a cost is needed for a model without pricing:
+ * - `throw`: throw an error (default)
+ * - `warn`: log a warning once per model and count its usage as free
+ * - `zero`: count its usage as free, e.g. for local models
+ */
+export type UnknownModelBehavior = 'throw' | 'warn' | 'zero';
+
+/**
+ * Options for registering model pricing.
+ */
+export type RegisterModelPricingOptions = {
+  /** Other ids that resolve to the same pricing. */
+  aliases?: Array<string>;
+};
+
+/**
+ * A model pricing file: cost rates by model id, with optional aliases.
+ *
+ * @example
+ * ```json
+ * {
+ *   "mistral/mistral-large": {
+ *     "inputCostPerMillionTokens": 2,
+ *     "outputCostPerMillionTokens": 6,
+ *     "aliases": ["mistral-large-latest"]
+ *   }
+ * }
+ * ```
+ */
+export type ModelPricingFile = Record<string, CostRates & RegisterModelPricingOptions>;
+
+const ZERO_RATES: CostRates = { inputCostPerMillionTokens: 0, outputCostPerMillionTokens: 0 };
+
+/** Pricing by model id; later registrations win in fuzzy matches. */
+const registry = new Map<string, CostRates>(Object.entries(MODEL_PRICING));
+/** Alias to model id. */
+const aliases = new Map<string, string>();
+const patterns: Array<{ pattern: RegExp; rates: CostRates }> = [];
+
+let unknownModelBehavior: UnknownModelBehavior = 'throw';
+const warnedModels = new Set<string>();
+
+/**
+ * Register pricing for a model, overriding any existing pricing for its id.
+ * A regular expression applies to every model id it matches.
+ *
+ * @example
+ * ```ts
+ * registerModelPricing('acme/coder-large', {
+ *   inputCostPerMillionTokens: 2,
+ *   outputCostPerMillionTokens: 8,
+ * }, { aliases: ['coder-large-latest'] });
+ *
+ * // Every local model is free
+ * registerModelPricing(/^ollama\//, { inputCostPerMillionTokens: 0, outputCostPerMillionTokens: 0 });
+ * ```
+ */
+export function registerModelPricing(
+  model: string | RegExp,
+  rates: CostRates,
+  options: RegisterModelPricingOptions = {}
+): void {
+  if (model instanceof RegExp) {
+    patterns.unshift({ pattern: model, rates });
+    return;
+  }
+  registry.delete(model);
+  registry.set(model, rates);
+  for (const alias of options.aliases ?? []) {
+    aliases.delete(alias);
+    aliases.set(alias, model);
+  }
+}
+
+/**
+ * Register the pricing in a JSON file (see `ModelPricingFile`).
+ */
+export async function loadModelPricing(filePath: string): Promise<void> {
+  const content = JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    throw new Error(`Invalid pricing file ${filePath}: expected an object of model ids`);
+  }
+
+  // Validate everything before registering anything
+  const entries = Object.entries(content).map(([model, entry]) => {
+    const { aliases: entryAliases, ...rates } = (entry ?? {}) as ModelPricingFile[string];
+    const { tiers, ...baseRates } = rates;
+    const isNumeric = (values: object) =>
+      Object.values(values).every(value => typeof value === 'number');
+    if (
+      typeof rates.inputCostPerMillionTokens !== 'number' ||
+      typeof rates.outputCostPerMillionTokens !== 'number' ||
+      !isNumeric(baseRates) ||
+      (tiers !== undefined &&
+        !(
+          Array.isArray(tiers) &&
+          tiers.every(tier => typeof tier?.aboveInputTokens === 'number' && isNumeric(tier))
+        ))
+    ) {
+      throw new Error(
+        `Invalid pricing for "${model}" in ${filePath}: ` +
+          'expected numeric inputCostPerMillionTokens and outputCostPerMillionTokens'
+      );
+    }
+    if (
+      entryAliases !== undefined &&
+      !(Array.isArray(entryAliases) && entryAliases.every(alias => typeof alias === 'string'))
+    ) {
+      throw new Error(
+        `Invalid aliases for "${model}" in ${filePath}: expected an array of strings`
+      );
+    }
+    return { model, rates, aliases: entryAliases };
+  });
+
+  for (const { model, rates, aliases: entryAliases } of entries) {
+    registerModelPricing(model, rates, { aliases: entryAliases });
+  }
+}
+
+/**
+ * Set what happens when a cost is needed for a model without pricing
+ * (e.g. in `costIs()`). Defaults to `throw`.
+ */
+export function setUnknownModelBehavior(behavior: UnknownModelBehavior): void {
+  unknownModelBehavior = behavior;
+  warnedModels.clear();
+}
+
+/**
+ * Normalize a model id for fuzzy matching: drop the provider prefix and use
+ * dashes for version dots, so `anthropic/claude-sonnet-4.5` and
+ * `claude-sonnet-4-5` compare equal.
+ */
+function normalizeModelId(model: string): string {
+  return model
+    .toLowerCase()
+    .slice(model.lastIndexOf('/') + 1)
+    .replace(/\./g, '-');
+}
+
+/**
+ * Version tags after a registered id that do not change the pricing: dates
+ * (`-20250929`, `-2024-08-06`, `@20250929`, `-0613`), `preview`, `latest`,
+ * `exp` and `beta`, in any order.
+ */
+const VERSION_TAGS = /^(?:[-@](?:\d{8}|\d{4}(?:-\d{2}-\d{2})?|preview|latest|exp|experimental|beta))+$/;
+
+/**
+ * Get pricing for a model, or undefined if there is none.
+ *
+ * Tries, in order: the exact id, aliases, registered patterns, the id without
+ * provider prefix and with dashes for dots, and the longest registered id the
+ * model id starts with, if only version tags follow it (see `VERSION_TAGS`).
+ * Other variants (`o1-pro`, `claude-opus-4-6`) are priced differently from
+ * their base model, so they are unknown unless registered or matched with an
+ * alias or pattern.
+ */
+export function getModelPricing(model: string): CostRates | undefined {
+  const exact = registry.get(model) ?? registry.get(aliases.get(model) ?? '');
+  if (exact) {
+    return exact;
+  }
+
+  const pattern = patterns.find(({ pattern }) => {
+    pattern.lastIndex = 0;
+    return pattern.test(model);
+  });
+  if (pattern) {
+    return pattern.rates;
+  }
+
+  // Most recently registered first, so registered pricing wins over built-in pricing
+  const candidates: Array<[string, CostRates]> = [
+    ...registry,
+    ...[...aliases].map(([alias, id]): [string, CostRates] => [alias, registry.get(id)!]),
+  ]
+    .reverse()
+    .map(([id, rates]) => [normalizeModelId(id), rates]);
+
+  const normalized = normalizeModelId(model);
+  const exactMatch = candidates.find(([id]) => id === normalized);
+  if (exactMatch) {
+    return exactMatch[1];
+  }
+
+  // Longest prefix wins (the sort is stable, so ties keep the order above)
+  const prefixMatch = candidates
+    .filter(([id]) => normalized.startsWith(id) && VERSION_TAGS.test(normalized.slice(id.length)))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  return prefixMatch?.[1];
+}
+
+/**
+ * Get pricing for a model, handling unknown models as set with
+ * `setUnknownModelBehavior()` (or the given behavior).
+ */
+export function resolveModelPricing(
+  model: string,
+  behavior: UnknownModelBehavior = unknownModelBehavior
+): CostRates {
+  const pricing = getModelPricing(model);
+  if (pricing) {
+    return pricing;
+  }
+  if (behavior === 'throw') {
+    throw new Error(
+      `Unknown model "${model}". Register its pricing with registerModelPricing() ` +
+        'or provide explicit rates.'
+    );
+  }
+  if (behavior === 'warn' && !warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`[RalphLoopAgent] No pricing for model "${model}"; counting its usage as free`);
+  }
+  return ZERO_RATES;
+}
+
+/**
+ * Get the rates for a model call with the given number of input tokens,
+ * applying the matching tier.
+ */
+export function getTierRates(rates: CostRates, inputTokens: number): CostRates {
+  const tier = (rates.tiers ?? [])
+    .filter(candidate => inputTokens > candidate.aboveInputTokens)
+    .sort((a, b) => b.aboveInputTokens - a.aboveInputTokens)[0];
+  if (!tier) {
+    return rates;
+  }
+  const { aboveInputTokens: _, ...tierRates } = tier;
+  return { ...rates, ...tierRates };
+}
+
+/**
+ * Calculate cost from usage and rates.
+ * Accounts for prompt caching if cache token details are available, and for
+ * reasoning tokens if the rates price them separately.
+ *
+ * Tiers apply per model call, so they need the usage of each call (e.g.
+ * `result.steps.map(step => step.usage)`). A single usage may be a total over
+ * several calls and is priced at the base rates.
+ */
+export function calculateCost(
+  usage: LanguageModelUsage | Array<LanguageModelUsage>,
+  rates: CostRates
+): number {
+  if (Array.isArray(usage)) {
+    return usage.reduce(
+      (sum, callUsage) =>
+        sum + calculateCost(callUsage, getTierRates(rates, callUsage.inputTokens ?? 0)),
+      0
+    );
+  }
+
+  const outputTokens = usage.outputTokens ?? 0;
+  const reasoningTokens = usage.outputTokenDetails?.reasoningTokens ?? 0;
+  const cacheReadTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0;
+  const cacheWriteTokens = usage.inputTokenDetails?.cacheWriteTokens ?? 0;
+  
+  // Calculate input cost with cache awareness
+  let inputCost: number;
+  if (cacheReadTokens > 0 || cacheWriteTokens > 0) {
+    // Cache is being used - calculate with cache rates
+    const uncachedInputTokens = (usage.inputTokens ?? 0) - cacheReadTokens - cacheWriteTokens;
+    const cacheReadRate = rates.cacheReadCostPerMillionTokens ?? rates.inputCostPerMillionTokens;
+    const cacheWriteRate = rates.cacheWriteCostPerMillionTokens ?? rates.inputCostPerMillionTokens;
+    
+    inputCost = 
+      (uncachedInputTokens / 1_000_000) * rates.inputCostPerMillionTokens +
+      (cacheReadTokens / 1_000_000) * cacheReadRate +
+      (cacheWriteTokens / 1_000_000) * cacheWriteRate;
+  } else {
+    // No cache info - use standard input rate
+    inputCost = ((usage.inputTokens ?? 0) / 1_000_000) * rates.inputCostPerMillionTokens;
+  }
+  
+  const reasoningRate = rates.reasoningCostPerMillionTokens ?? rates.outputCostPerMillionTokens;
+  const outputCost =
+    ((outputTokens - reasoningTokens) / 1_000_000) * rates.outputCostPerMillionTokens +
+    (reasoningTokens / 1_000_000) * reasoningRate;
+  
+  return inputCost + outputCost;
+}
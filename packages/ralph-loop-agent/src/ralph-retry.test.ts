@@ -0,0 +1,256 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { APICallError, RetryError } from 'ai';
+import type { ModelMessage } from '@ai-sdk/provider-utils';
+import { RalphLoopAgent, iterationCountIs } from './ralph-loop-agent';
+import { classifyError, dropOldestMessages, getRetryDelay } from './ralph-retry';
+import { costIs } from './ralph-stop-condition';
+import { textResponse } from './test-utils';
+
+const createApiError = (statusCode: number, message = `HTTP ${statusCode}`) =>
+  new APICallError({
+    message,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+  });
+
+// Model that fails on the given (1-indexed) calls and answers otherwise
+const createFlakyModel = (failures: Record<number, unknown>) => {
+  let calls = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async () => {
+      calls++;
+      if (failures[calls]) {
+        throw failures[calls];
+      }
+      return textResponse(`Response ${calls}`);
+    },
+  });
+};
+
+describe('classifyError', () => {
+  it('should classify API errors by status', () => {
+    expect(classifyError(createApiError(429))).toBe('retryable');
+    expect(classifyError(createApiError(529))).toBe('retryable');
+    expect(classifyError(createApiError(401))).toBe('fatal');
+    expect(classifyError(createApiError(413))).toBe('context-overflow');
+    expect(
+      classifyError(createApiError(400, 'prompt is too long: 210000 tokens > 200000 maximum'))
+    ).toBe('context-overflow');
+  });
+
+  it('should unwrap retry errors', () => {
+    const error = new RetryError({
+      message: 'Failed after 3 attempts',
+      reason: 'maxRetriesExceeded',
+      errors: [createApiError(503)],
+    });
+    expect(classifyError(error)).toBe('retryable');
+  });
+
+  it('should classify network errors as retryable', () => {
+    expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(
+      'retryable'
+    );
+    expect(classifyError(new TypeError('fetch failed'))).toBe('retryable');
+    expect(classifyError(new Error('Something broke'))).toBe('fatal');
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially up to the maximum', () => {
+    const config = { initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 1_000 };
+    expect(getRetryDelay(1, config)).toBe(100);
+    expect(getRetryDelay(2, config)).toBe(300);
+    expect(getRetryDelay(3, config)).toBe(900);
+    expect(getRetryDelay(4, config)).toBe(1_000);
+  });
+});
+
+describe('dropOldestMessages', () => {
+  it('should not start the kept history with a tool message', () => {
+    const messages: Array<ModelMessage> = [
+      { role: 'assistant', content: 'a' },
+      { role: 'tool', content: [] },
+      { role: 'assistant', content: 'b' },
+      { role: 'tool', content: [] },
+      { role: 'tool', content: [] },
+      { role: 'user', content: 'c' },
+    ];
+
+    expect(dropOldestMessages(messages)).toEqual(messages.slice(5));
+  });
+});
+
+describe('retry', () => {
+  it('should retry retryable errors and keep going', async () => {
+    const onIterationError = vi.fn();
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({ 2: createApiError(503), 3: createApiError(429) }),
+      maxRetries: 0,
+      stopWhen: iterationCountIs(2),
+      retry: { initialDelayMs: 1 },
+      onIterationError,
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('max-iterations');
+    expect(result.iterations).toBe(2);
+    expect(result.text).toBe('Response 4');
+    expect(onIterationError.mock.calls.map(([event]) => [event.attempt, event.errorClass, event.willRetry])).toEqual([
+      [1, 'retryable', true],
+      [2, 'retryable', true],
+    ]);
+  });
+
+  it('should return a partial result on a fatal error', async () => {
+    const error = createApiError(401, 'Invalid API key');
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({ 3: error }),
+      maxRetries: 0,
+      stopWhen: iterationCountIs(5),
+      retry: { initialDelayMs: 1 },
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('error');
+    expect(result.error).toBe(error);
+    expect(result.iterations).toBe(3);
+    expect(result.allResults).toHaveLength(2);
+    expect(result.text).toBe('Response 2');
+    expect(result.totalUsage.totalTokens).toBe(60);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const onIterationError = vi.fn();
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({ 2: createApiError(503), 3: createApiError(503) }),
+      maxRetries: 0,
+      stopWhen: iterationCountIs(5),
+      retry: { maxRetries: 1, initialDelayMs: 1 },
+      onIterationError,
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('error');
+    expect(onIterationError.mock.calls.map(([event]) => event.willRetry)).toEqual([true, false]);
+  });
+
+  it('should not retry without a retry setting', async () => {
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({ 2: createApiError(503) }),
+      maxRetries: 0,
+      stopWhen: iterationCountIs(5),
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('error');
+    expect(result.allResults).toHaveLength(1);
+  });
+
+  it('should return an error result when no iteration completed', async () => {
+    const error = createApiError(401, 'Invalid API key');
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({ 1: error }),
+      maxRetries: 0,
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result).toMatchObject({ text: '', iterations: 0, completionReason: 'error', error });
+    expect(result.result).toBeUndefined();
+    expect(result.allResults).toHaveLength(0);
+  });
+
+  it('should throw when aborted before any iteration completed', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Cancelled'));
+    const agent = new RalphLoopAgent({ model: createFlakyModel({}) });
+
+    await expect(
+      agent.loop({ prompt: 'Test', abortSignal: controller.signal })
+    ).rejects.toThrow('Cancelled');
+  });
+
+  it('should return a partial result when verification throws', async () => {
+    const error = new Error('Judge unavailable');
+    const onIterationError = vi.fn();
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({}),
+      stopWhen: iterationCountIs(5),
+      verifyCompletion: ({ iteration }) => {
+        if (iteration === 2) {
+          throw error;
+        }
+        return { complete: false };
+      },
+      onIterationError,
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result).toMatchObject({ completionReason: 'error', error, iterations: 2, text: 'Response 2' });
+    expect(onIterationError).toHaveBeenCalledWith(
+      expect.objectContaining({ iteration: 2, error, willRetry: false })
+    );
+  });
+
+  it('should return a partial result when a stop condition throws', async () => {
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({}),
+      stopWhen: costIs(1),
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('error');
+    expect(result.error).toEqual(expect.objectContaining({ message: expect.stringContaining('Unknown model') }));
+    expect(result.allResults).toHaveLength(1);
+  });
+
+  it('should keep going when a checkpoint cannot be saved', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const agent = new RalphLoopAgent({
+      model: createFlakyModel({}),
+      stopWhen: iterationCountIs(2),
+      checkpoint: () => {
+        throw new Error('Disk full');
+      },
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('max-iterations');
+    expect(result.iterations).toBe(2);
+    expect(warn).toHaveBeenCalledWith(
+      '[RalphLoopAgent] Failed to save checkpoint 1:',
+      expect.objectContaining({ message: 'Disk full' })
+    );
+    warn.mockRestore();
+  });
+
+  it('should drop older history on context overflow', async () => {
+    const mockModel = createFlakyModel({ 3: createApiError(400, 'prompt is too long') });
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      maxRetries: 0,
+      stopWhen: iterationCountIs(3),
+      verifyCompletion: ({ iteration }) => ({ complete: false, reason: `Feedback ${iteration}` }),
+      retry: { initialDelayMs: 1 },
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.completionReason).toBe('max-iterations');
+
+    // The retried call of iteration 3 no longer contains the first iteration
+    const retriedPrompt = JSON.stringify(mockModel.doGenerateCalls[3]!.prompt);
+    expect(retriedPrompt).not.toContain('Response 1');
+    expect(retriedPrompt).toContain('Feedback 2');
+  });
+});
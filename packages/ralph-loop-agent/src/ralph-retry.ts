@@ -0,0 +1,120 @@
+import { APICallError, RetryError } from 'ai';
+import type { ModelMessage } from '@ai-sdk/provider-utils';
+
+/**
+ * How an iteration error is handled:
+ * - `retryable`: transient (rate limit, overload, 5xx, network); retried with backoff
+ * - `context-overflow`: the prompt is too long; retried with older history dropped
+ * - `fatal`: anything else; the loop ends with completionReason 'error'
+ */
+export type RalphErrorClass = 'retryable' | 'context-overflow' | 'fatal';
+
+/**
+ * Classifies an error thrown by the model call of an iteration.
+ */
+export type RalphErrorClassifier = (error: unknown) => RalphErrorClass;
+
+/**
+ * Retry policy for failed iterations.
+ */
+export interface RalphRetryConfig {
+  /**
+   * Maximum retries per iteration. Default: 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry in ms. Default: 1,000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between retries in ms. Default: 30,000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor the delay grows by after each retry. Default: 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Custom error classification. Defaults to `classifyError`.
+   */
+  classifyError?: RalphErrorClassifier;
+}
+
+const CONTEXT_OVERFLOW_PATTERN =
+  /context (length|window)|prompt is too long|too many tokens|maximum context|input is too long|exceeds the model's maximum/i;
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Default error classifier.
+ *
+ * Uses the status code and `isRetryable` flag of `APICallError`s,
+ * unwraps `RetryError`s from the AI SDK's own retries, and recognizes
+ * context-length errors by status 413 or their message.
+ */
+export function classifyError(error: unknown): RalphErrorClass {
+  if (RetryError.isInstance(error)) {
+    return classifyError(error.lastError);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (APICallError.isInstance(error)) {
+    if (error.statusCode === 413 || CONTEXT_OVERFLOW_PATTERN.test(message)) {
+      return 'context-overflow';
+    }
+    return error.isRetryable ? 'retryable' : 'fatal';
+  }
+
+  if (CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    return 'context-overflow';
+  }
+
+  const code = (error as { code?: unknown } | undefined)?.code;
+  const cause = (error as { cause?: { code?: unknown } } | undefined)?.cause;
+  if (
+    (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) ||
+    (typeof cause?.code === 'string' && NETWORK_ERROR_CODES.has(cause.code)) ||
+    message === 'fetch failed'
+  ) {
+    return 'retryable';
+  }
+
+  return 'fatal';
+}
+
+/**
+ * Get the delay before a retry (exponential backoff).
+ *
+ * @param attempt - The retry number (1 for the first retry)
+ */
+export function getRetryDelay(attempt: number, config: RalphRetryConfig = {}): number {
+  const { initialDelayMs = 1_000, maxDelayMs = 30_000, backoffFactor = 2 } = config;
+  return Math.min(initialDelayMs * backoffFactor ** (attempt - 1), maxDelayMs);
+}
+
+/**
+ * Drop the oldest half of a conversation history to recover from a
+ * context overflow. The kept part never starts with a tool message, so
+ * tool results are not separated from their tool calls.
+ */
+export function dropOldestMessages(messages: Array<ModelMessage>): Array<ModelMessage> {
+  let start = Math.ceil(messages.length / 2);
+  while (start < messages.length && messages[start]!.role === 'tool') {
+    start++;
+  }
+  return messages.slice(start);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { RalphLoopAgent, iterationCountIs } from './ralph-loop-agent';
+import { fingerprintAction, findRepeatedActions } from './ralph-stall-detector';
+import { repeatedActionsIs } from './ralph-stop-condition';
+import { createMockResult, textResponse, toolCallResponse } from './test-utils';
+
+// Iteration result with one step per tool outcome
+const createResult = (
+  parts: Array<{ toolName: string; input: unknown; output?: unknown; error?: unknown }>
+) =>
+  createMockResult({
+    steps: parts.map(part => ({
+      content: [
+        part.error !== undefined
+          ? { type: 'tool-error', toolCallId: 'id', toolName: part.toolName, input: part.input, error: part.error }
+          : { type: 'tool-result', toolCallId: 'id', toolName: part.toolName, input: part.input, output: part.output },
+      ],
+    })),
+  });
+
+// Model that runs `runCommand` with the same input once per iteration, then answers
+const createRepeatingModel = () => {
+  let calls = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async () => {
+      calls++;
+      return calls % 2 === 1
+        ? toolCallResponse([
+            { toolName: 'runCommand', input: { command: 'npm test' }, toolCallId: `call-${calls}` },
+          ])
+        : textResponse('Ran the tests');
+    },
+  });
+};
+
+const tools = {
+  runCommand: tool({
+    inputSchema: z.object({ command: z.string() }),
+    execute: async () => ({ exitCode: 1, stderr: 'Tests failed' }),
+  }),
+};
+
+describe('fingerprintAction', () => {
+  it('should ignore object key order', () => {
+    expect(fingerprintAction('write', { a: 1, b: 2 }, 'ok')).toBe(
+      fingerprintAction('write', { b: 2, a: 1 }, 'ok')
+    );
+  });
+
+  it('should differ by tool, input and outcome', () => {
+    const base = fingerprintAction('write', { a: 1 }, 'ok');
+    expect(fingerprintAction('read', { a: 1 }, 'ok')).not.toBe(base);
+    expect(fingerprintAction('write', { a: 2 }, 'ok')).not.toBe(base);
+    expect(fingerprintAction('write', { a: 1 }, 'failed')).not.toBe(base);
+  });
+});
+
+describe('findRepeatedActions', () => {
+  it('should count identical actions across iterations', () => {
+    const failingTest = { toolName: 'runCommand', input: { command: 'npm test' }, output: 'exit 1' };
+    const allResults = [
+      createResult([failingTest, { toolName: 'readFile', input: { path: 'a.ts' }, output: 'x' }]),
+      createResult([failingTest]),
+      createResult([{ ...failingTest, output: 'exit 0' }]),
+    ];
+
+    expect(findRepeatedActions(allResults)).toEqual([
+      expect.objectContaining({ toolName: 'runCommand', count: 2, lastResultIndex: 1 }),
+    ]);
+    expect(findRepeatedActions(allResults, 3)).toEqual([]);
+  });
+
+  it('should fingerprint tool errors by their message', () => {
+    const allResults = [
+      createResult([{ toolName: 'writeFile', input: { path: 'a' }, error: new Error('EACCES') }]),
+      createResult([{ toolName: 'writeFile', input: { path: 'a' }, error: new Error('EACCES') }]),
+    ];
+
+    expect(findRepeatedActions(allResults)[0]?.count).toBe(2);
+  });
+});
+
+describe('stall detection', () => {
+  it('should nudge the agent when it repeats an action', async () => {
+    const mockModel = createRepeatingModel();
+
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      tools,
+      stopWhen: iterationCountIs(3),
+      stallDetection: true,
+    });
+
+    await agent.loop({ prompt: 'Fix the tests' });
+
+    const promptText = (callIndex: number) =>
+      JSON.stringify(mockModel.doGenerateCalls[callIndex]!.prompt);
+
+    // Each iteration makes two model calls. Before iteration 2 the action ran once
+    expect(promptText(2)).not.toContain('You are repeating yourself');
+    // Iteration 3 follows a repeat
+    expect(promptText(4)).toContain('You are repeating yourself');
+    expect(promptText(4)).toContain('runCommand');
+  });
+
+  it('should not nudge when disabled', async () => {
+    const mockModel = createRepeatingModel();
+
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      tools,
+      stopWhen: iterationCountIs(3),
+    });
+
+    await agent.loop({ prompt: 'Fix the tests' });
+
+    expect(JSON.stringify(mockModel.doGenerateCalls)).not.toContain('You are repeating yourself');
+  });
+
+  it('should stop the loop with repeatedActionsIs', async () => {
+    const agent = new RalphLoopAgent({
+      model: createRepeatingModel(),
+      tools,
+      stopWhen: [iterationCountIs(10), repeatedActionsIs(3)],
+    });
+
+    const result = await agent.loop({ prompt: 'Fix the tests' });
+
+    expect(result.iterations).toBe(3);
+    expect(result.stopConditions).toEqual([
+      {
+        id: 'repeated-actions',
+        kind: 'custom',
+        message: 'Repeated runCommand 3 times with the same input and result',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { GenerateTextResult, ToolSet } from 'ai';
+import { createHash } from 'node:crypto';
+
+/**
+ * Configuration for stall detection.
+ */
+export interface RalphStallDetectionConfig {
+  /**
+   * How often the same action (same tool, input and outcome) must occur
+   * before the agent is nudged. Default: 2
+   */
+  threshold?: number;
+
+  /**
+   * Build the nudge that is added to the next iteration's messages.
+   * Defaults to a "you are repeating yourself" message listing the actions.
+   */
+  nudge?: (repeatedActions: Array<RepeatedAction>) => string;
+}
+
+/**
+ * A tool call that was made repeatedly with the same input and outcome.
+ */
+export interface RepeatedAction {
+  /** Fingerprint of tool name, input and outcome. */
+  fingerprint: string;
+  toolName: string;
+  input: unknown;
+  /** How often the action occurred across all iterations. */
+  count: number;
+  /** Index in `allResults` of the last iteration that made the call. */
+  lastResultIndex: number;
+}
+
+/**
+ * Serialize a value with sorted object keys so equal values fingerprint equally.
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Error) {
+    return JSON.stringify(value.message);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Fingerprint a tool call by its name, input and outcome (output or error).
+ */
+export function fingerprintAction(toolName: string, input: unknown, outcome: unknown): string {
+  return createHash('sha256')
+    .update(stableStringify({ toolName, input, outcome }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Find tool calls that were made at least `minCount` times with the same
+ * input and outcome across all iterations. Most repeated first.
+ */
+export function findRepeatedActions<TOOLS extends ToolSet>(
+  allResults: Array<GenerateTextResult<TOOLS, never>>,
+  minCount: number = 2
+): Array<RepeatedAction> {
+  const actions = new Map<string, RepeatedAction>();
+
+  allResults.forEach((result, resultIndex) => {
+    for (const step of result.steps) {
+      for (const part of step.content) {
+        if (part.type !== 'tool-result' && part.type !== 'tool-error') continue;
+
+        const outcome = part.type === 'tool-result' ? part.output : { error: part.error };
+        const fingerprint = fingerprintAction(part.toolName, part.input, outcome);
+        const existing = actions.get(fingerprint);
+
+        if (existing) {
+          existing.count++;
+          existing.lastResultIndex = resultIndex;
+        } else {
+          actions.set(fingerprint, {
+            fingerprint,
+            toolName: part.toolName,
+            input: part.input,
+            count: 1,
+            lastResultIndex: resultIndex,
+          });
+        }
+      }
+    }
+  });
+
+  return [...actions.values()]
+    .filter(action => action.count >= minCount)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Build the default "you are repeating yourself" nudge.
+ */
+export function buildStallNudge(repeatedActions: Array<RepeatedAction>): string {
+  const lines = repeatedActions.map(action => {
+    const input = stableStringify(action.input);
+    const preview = input.length > 200 ? `${input.slice(0, 200)}...` : input;
+    return `- ${action.toolName} ${preview} (${action.count} times)`;
+  });
+
+  return [
+    'You are repeating yourself. These actions were already made with the same input and produced the same result:',
+    ...lines,
+    'Repeating them will not make progress. Try a different approach.',
+  ].join('\n');
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { RalphSteeringQueue, RalphStepInjection, type RalphSteeringTiming } from './ralph-steering';
+import { textResponse, toolCallResponse } from './test-utils';
+
+const userMessage = (text: string) => ({
+  role: 'user' as const,
+  content: [{ type: 'text' as const, text }],
+});
+
+describe('RalphStepInjection', () => {
+  it('should keep injected messages at their position in later steps', () => {
+    const queue = new RalphSteeringQueue();
+    const injection = new RalphStepInjection(queue, 1);
+    const prompt = userMessage('Do the task');
+    const response = { role: 'assistant' as const, content: 'Working' };
+
+    queue.push(userMessage('Use pnpm'), 'next-step');
+    expect(injection.apply([prompt])).toEqual([prompt, userMessage('Use pnpm')]);
+    expect(injection.apply([prompt, response])).toEqual([prompt, userMessage('Use pnpm'), response]);
+    expect(injection.mergeResponse([response])).toEqual([userMessage('Use pnpm'), response]);
+  });
+
+  it('should put the injected messages back when the call fails', () => {
+    const queue = new RalphSteeringQueue();
+    queue.push(userMessage('Use pnpm'), 'next-step');
+    queue.push(userMessage('Then deploy'), 'next-iteration');
+
+    const injection = new RalphStepInjection(queue, 0);
+    injection.apply([]);
+    injection.cancel();
+
+    expect(queue.take('next-step')).toEqual([userMessage('Use pnpm')]);
+    expect(queue.take('next-iteration')).toEqual([userMessage('Then deploy')]);
+  });
+});
+
+describe('agent.steer', () => {
+  // Runs the install tool in the first call, then answers with text
+  const createAgent = (when: RalphSteeringTiming) => {
+    let call = 0;
+    const model = new MockLanguageModelV3({
+      doGenerate: async () =>
+        ++call === 1
+          ? toolCallResponse([{ toolName: 'install', input: {} }])
+          : textResponse(`Answer ${call}`),
+    });
+
+    const tools = {
+      // The user redirects the agent while the tool runs
+      install: tool({
+        inputSchema: z.object({}),
+        execute: async () => {
+          agent.steer('Use pnpm instead of npm', { when });
+          return { installed: true };
+        },
+      }),
+    };
+    let verifications = 0;
+    const agent = new RalphLoopAgent({
+      model,
+      tools,
+      verifyCompletion: () => ({ complete: ++verifications === 2 }),
+    });
+    return { agent, model };
+  };
+
+  const texts = (prompt: Array<{ role: string; content: unknown }>) =>
+    prompt.map(message => JSON.stringify(message.content));
+
+  it('should add the message before the next step and keep it in the history', async () => {
+    const { agent, model } = createAgent('next-step');
+
+    await agent.loop({ prompt: 'Install the dependencies' });
+
+    const secondStep = texts(model.doGenerateCalls[1]!.prompt);
+    expect(secondStep.at(-1)).toContain('Use pnpm instead of npm');
+
+    const nextIteration = texts(model.doGenerateCalls[2]!.prompt);
+    const steered = nextIteration.findIndex(text => text.includes('Use pnpm'));
+    expect(nextIteration.filter(text => text.includes('Use pnpm'))).toHaveLength(1);
+    // After the tool result, before the answer of the second step
+    expect(nextIteration[steered - 1]).toContain('tool-result');
+    expect(nextIteration[steered + 1]).toContain('Answer 2');
+  });
+
+  it('should add the message at the start of the next iteration', async () => {
+    const { agent, model } = createAgent('next-iteration');
+
+    await agent.loop({ prompt: 'Install the dependencies' });
+
+    expect(JSON.stringify(model.doGenerateCalls[1]!.prompt)).not.toContain('Use pnpm');
+    const nextIteration = texts(model.doGenerateCalls[2]!.prompt);
+    const steered = nextIteration.findIndex(text => text.includes('Use pnpm'));
+    expect(nextIteration[steered - 1]).toContain('Answer 2');
+  });
+});
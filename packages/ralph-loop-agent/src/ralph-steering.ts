@@ -0,0 +1,120 @@
+import type { PrepareStepFunction, ToolSet } from 'ai';
+import type { ModelMessage } from '@ai-sdk/provider-utils';
+
+/**
+ * When a steering message reaches the model:
+ * - `next-step`: before the next step of the running iteration
+ * - `next-iteration`: at the start of the next iteration
+ */
+export type RalphSteeringTiming = 'next-step' | 'next-iteration';
+
+/**
+ * Options for `RalphLoopAgent.steer()`.
+ */
+export interface RalphSteerOptions {
+  /**
+   * When the message reaches the model. Default: `'next-step'`
+   */
+  when?: RalphSteeringTiming;
+}
+
+/**
+ * Messages queued with `RalphLoopAgent.steer()` until the loop picks them up.
+ */
+export class RalphSteeringQueue {
+  private queue: Array<{ message: ModelMessage; when: RalphSteeringTiming }> = [];
+
+  /**
+   * Queue a message.
+   */
+  push(message: ModelMessage, when: RalphSteeringTiming): void {
+    this.queue.push({ message, when });
+  }
+
+  /**
+   * Put messages back at the front of the queue, e.g. after a failed model call.
+   */
+  restore(messages: Array<ModelMessage>, when: RalphSteeringTiming): void {
+    this.queue.unshift(...messages.map(message => ({ message, when })));
+  }
+
+  /**
+   * Remove and return the queued messages for a timing.
+   */
+  take(when: RalphSteeringTiming): Array<ModelMessage> {
+    const taken = this.queue.filter(entry => entry.when === when);
+    this.queue = this.queue.filter(entry => entry.when !== when);
+    return taken.map(entry => entry.message);
+  }
+}
+
+/**
+ * Adds `next-step` steering messages to the steps of one model call.
+ *
+ * The AI SDK rebuilds the messages of every step from the call's messages and
+ * the responses so far, so messages added in one step are added again in the
+ * later ones, at the same position.
+ */
+export class RalphStepInjection {
+  private injected: Array<{ index: number; message: ModelMessage }> = [];
+
+  /**
+   * @param queue - The queue to take the messages from.
+   * @param callMessageCount - The number of messages the model call starts with.
+   */
+  constructor(
+    private readonly queue: RalphSteeringQueue,
+    private readonly callMessageCount: number
+  ) {}
+
+  /**
+   * Add the messages injected so far, and the newly queued ones at the end.
+   */
+  apply(messages: Array<ModelMessage>): Array<ModelMessage> {
+    const result = [...messages];
+    for (const { index, message } of this.injected) {
+      result.splice(index, 0, message);
+    }
+    for (const message of this.queue.take('next-step')) {
+      this.injected.push({ index: result.length, message });
+      result.push(message);
+    }
+    return result;
+  }
+
+  /**
+   * The response messages of the call with the injected messages in place,
+   * for the conversation history.
+   */
+  mergeResponse(responseMessages: Array<ModelMessage>): Array<ModelMessage> {
+    const result = [...responseMessages];
+    for (const { index, message } of this.injected) {
+      result.splice(index - this.callMessageCount, 0, message);
+    }
+    return result;
+  }
+
+  /**
+   * Put the injected messages back into the queue (the call failed).
+   */
+  cancel(): void {
+    this.queue.restore(
+      this.injected.map(({ message }) => message),
+      'next-step'
+    );
+    this.injected = [];
+  }
+
+  /**
+   * Run the injection before a prepareStep function.
+   */
+  wrap<TOOLS extends ToolSet>(
+    prepareStep: PrepareStepFunction<TOOLS> | undefined
+  ): PrepareStepFunction<TOOLS> {
+    return async options => {
+      const messages = this.apply(options.messages);
+      const result = await prepareStep?.({ ...options, messages });
+      return { ...result, messages: result?.messages ?? messages };
+    };
+  }
+}
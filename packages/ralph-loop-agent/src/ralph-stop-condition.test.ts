@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import {
+  and,
+  costIs,
+  getMetRalphStopConditions,
+  getRemainingBudget,
+  iterationCountIs,
+  namedStopCondition,
+  noToolCallsFor,
+  not,
+  or,
+  tokenCountIs,
+  toolErrorRateIs,
+  verificationFailedTimes,
+  wallClockIs,
+} from './ralph-stop-condition';
+import {
+  createMockResult,
+  createStopContext,
+  createUsage,
+  textResponse,
+  toolCallResponse,
+} from './test-utils';
+
+// Minimal iteration result with the given tool outcomes
+const createResult = (parts: Array<'tool-result' | 'tool-error'>) =>
+  createMockResult({
+    steps: [
+      {
+        toolCalls: parts.map(() => ({})),
+        content: parts.map(type => ({ type })),
+      },
+    ],
+  });
+
+describe('combinators', () => {
+  const isTrue = namedStopCondition({ id: 'yes', message: 'Yes', isMet: () => true });
+  const isFalse = namedStopCondition({ id: 'no', message: 'No', isMet: () => false });
+
+  it('and() should require all conditions', async () => {
+    expect(await and(isTrue, isTrue)(createStopContext())).toBe(true);
+    expect(await and(isTrue, isFalse)(createStopContext())).toBe(false);
+    expect(await and()(createStopContext())).toBe(false);
+  });
+
+  it('or() should require any condition', async () => {
+    expect(await or(isFalse, isTrue)(createStopContext())).toBe(true);
+    expect(await or(isFalse, isFalse)(createStopContext())).toBe(false);
+  });
+
+  it('not() should negate a condition', async () => {
+    expect(await not(isTrue)(createStopContext())).toBe(false);
+    expect(await not(isFalse)(createStopContext())).toBe(true);
+  });
+
+  it('should express "at least 5 iterations AND over $3"', async () => {
+    const condition = and(
+      iterationCountIs(5),
+      costIs(3, { inputCostPerMillionTokens: 1_000_000, outputCostPerMillionTokens: 0 })
+    );
+    const expensive = createUsage(4);
+    const cheap = createUsage(2);
+
+    expect(await condition(createStopContext({ iteration: 4, totalUsage: expensive }))).toBe(false);
+    expect(await condition(createStopContext({ iteration: 5, totalUsage: cheap }))).toBe(false);
+    expect(await condition(createStopContext({ iteration: 5, totalUsage: expensive }))).toBe(true);
+  });
+
+  it('should describe combined conditions', async () => {
+    const met = await getMetRalphStopConditions({
+      stopConditions: [and(iterationCountIs(2), or(isFalse, isTrue)), not(isFalse)],
+      context: createStopContext({ iteration: 2 }),
+    });
+
+    expect(met).toEqual([
+      {
+        id: 'and(iteration-count, or(no, yes))',
+        kind: 'iterations',
+        message: 'Reached the limit of 2 iterations and Yes',
+      },
+      { id: 'not(no)', kind: 'custom', message: 'Condition "no" is not met' },
+    ]);
+  });
+});
+
+describe('costIs', () => {
+  it('should price each model at its own rates', () => {
+    const context = createStopContext({
+      model: 'anthropic/claude-haiku-4.5',
+      totalUsage: createUsage(2_000_000),
+      usageByModel: {
+        // $3.00
+        'anthropic/claude-sonnet-4.5': createUsage(1_000_000),
+        // $1.00
+        'anthropic/claude-haiku-4.5': createUsage(1_000_000),
+      },
+    });
+
+    expect(costIs(4)(context)).toBe(true);
+    expect(costIs(4.01)(context)).toBe(false);
+    // An explicit model prices all usage at its rates
+    expect(costIs(2.01, 'anthropic/claude-haiku-4.5')(context)).toBe(false);
+  });
+});
+
+describe('wallClockIs', () => {
+  it('should stop once the time is up', () => {
+    const condition = wallClockIs(60_000);
+
+    expect(condition(createStopContext({ startTime: Date.now() - 30_000 }))).toBe(false);
+    expect(condition(createStopContext({ startTime: Date.now() - 60_000 }))).toBe(true);
+    expect(condition(createStopContext())).toBe(false);
+  });
+
+  it('should report the remaining time as a budget', () => {
+    const condition = wallClockIs(60_000);
+
+    expect(condition.kind).toBe('budget');
+    expect(condition.remaining?.(createStopContext({ startTime: Date.now() - 90_000 }))).toEqual({
+      durationMs: 0,
+    });
+    expect(condition.remaining?.(createStopContext())?.durationMs).toBe(60_000);
+  });
+});
+
+describe('noToolCallsFor', () => {
+  it('should stop after N iterations without tool calls', () => {
+    const condition = noToolCallsFor(2);
+    const acted = createResult(['tool-result']);
+    const idle = createResult([]);
+
+    expect(condition(createStopContext({ allResults: [idle] }))).toBe(false);
+    expect(condition(createStopContext({ allResults: [idle, acted, idle] }))).toBe(false);
+    expect(condition(createStopContext({ allResults: [acted, idle, idle] }))).toBe(true);
+  });
+
+  it('should reject counts below one', () => {
+    expect(() => noToolCallsFor(0)).toThrow('noToolCallsFor requires a positive integer, got 0');
+    expect(() => noToolCallsFor(-1)).toThrow();
+    expect(() => noToolCallsFor(1.5)).toThrow();
+    expect(() => verificationFailedTimes(0)).toThrow();
+  });
+});
+
+describe('verificationFailedTimes', () => {
+  it('should count failed verifications', () => {
+    const condition = verificationFailedTimes(2);
+
+    expect(condition(createStopContext({ verifications: [{ complete: false }] }))).toBe(false);
+    expect(
+      condition(createStopContext({ verifications: [{ complete: false }, { complete: false }] }))
+    ).toBe(true);
+    expect(condition(createStopContext())).toBe(false);
+  });
+
+  it('should stop the agent right after the Nth failed verification', async () => {
+    const mockModel = new MockLanguageModelV3({
+      doGenerate: async () => textResponse('Response'),
+    });
+
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      stopWhen: [iterationCountIs(10), verificationFailedTimes(3)],
+      verifyCompletion: () => ({ complete: false, reason: 'Not yet' }),
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.iterations).toBe(3);
+    expect(result.completionReason).toBe('stop-condition');
+    expect(result.stopConditions?.[0]?.id).toBe('verification-failed');
+  });
+
+  it('should check the stop conditions once per iteration', async () => {
+    const checked: Array<number> = [];
+    const agent = new RalphLoopAgent({
+      model: new MockLanguageModelV3({ doGenerate: async () => textResponse('Response') }),
+      stopWhen: [
+        iterationCountIs(3),
+        namedStopCondition({
+          id: 'probe',
+          message: 'Probe',
+          isMet: ({ iteration }) => {
+            checked.push(iteration);
+            return false;
+          },
+        }),
+      ],
+      verifyCompletion: () => ({ complete: false, reason: 'Not yet' }),
+    });
+
+    await agent.loop({ prompt: 'Test' });
+
+    expect(checked).toEqual([1, 2, 3]);
+  });
+});
+
+describe('toolErrorRateIs', () => {
+  it('should stop when the error rate is reached', () => {
+    const condition = toolErrorRateIs(0.5, { minToolCalls: 4 });
+
+    // Not enough tool calls yet
+    expect(condition(createStopContext({ allResults: [createResult(['tool-error', 'tool-error'])] }))).toBe(false);
+    expect(
+      condition(
+        createStopContext({
+          allResults: [
+            createResult(['tool-error', 'tool-result']),
+            createResult(['tool-result', 'tool-result']),
+          ],
+        })
+      )
+    ).toBe(false);
+    expect(
+      condition(
+        createStopContext({
+          allResults: [
+            createResult(['tool-error', 'tool-result']),
+            createResult(['tool-error', 'tool-result']),
+          ],
+        })
+      )
+    ).toBe(true);
+  });
+
+  it('should count tool errors from the agent', async () => {
+    const mockModel = new MockLanguageModelV3({
+      doGenerate: async () => toolCallResponse([{ toolName: 'fail', input: {} }]),
+    });
+
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      tools: {
+        fail: tool({
+          inputSchema: z.object({}),
+          execute: async (): Promise<string> => {
+            throw new Error('Boom');
+          },
+        }),
+      },
+      stopWhen: [iterationCountIs(10), toolErrorRateIs(1, { minToolCalls: 2 })],
+    });
+
+    const result = await agent.loop({ prompt: 'Test' });
+
+    expect(result.stopConditions?.map(condition => condition.id)).toEqual(['tool-error-rate']);
+  });
+});
+
+describe('getRemainingBudget', () => {
+  it('should report the smallest remaining tokens and cost', () => {
+    const context = createStopContext({
+      totalUsage: createUsage(1_000_000),
+      usageByModel: undefined,
+    });
+    const rates = { inputCostPerMillionTokens: 1, outputCostPerMillionTokens: 1 };
+
+    expect(
+      getRemainingBudget({
+        stopConditions: [
+          iterationCountIs(10),
+          tokenCountIs(3_000_000),
+          or(tokenCountIs(1_500_000), costIs(5, rates)),
+        ],
+        context,
+      })
+    ).toEqual({ tokens: 500_000, cost: 4 });
+  });
+
+  it('should be empty without budget conditions', () => {
+    expect(
+      getRemainingBudget({ stopConditions: [iterationCountIs(10)], context: createStopContext() })
+    ).toEqual({});
+  });
+});
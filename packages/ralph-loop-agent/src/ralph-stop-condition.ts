@@ -1,5 +1,13 @@
 import type { GenerateTextResult, ToolSet, StepResult } from 'ai';
 import type { LanguageModelUsage } from 'ai';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+import {
+  calculateCost,
+  resolveModelPricing,
+  type CostRates,
+  type UnknownModelBehavior,
+} from './ralph-pricing';
+import { findRepeatedActions } from './ralph-stall-detector';
 
 /**
  * Context passed to stop condition functions.
@@ -22,129 +30,134 @@ export type RalphStopConditionContext<TOOLS extends ToolSet = {}> = {
 
   /**
    * The model identifier (e.g., 'anthropic/claude-opus-4.5').
+   * With model fallbacks, the model that ran the latest iteration.
    */
   model: string;
+
+  /**
+   * Token usage per model id. Set by RalphLoopAgent; used by `costIs` to
+   * price each model at its own rates.
+   */
+  usageByModel?: Record<string, LanguageModelUsage>;
+
+  /**
+   * Token usage of each model call per model id. Set by RalphLoopAgent; used
+   * by `costIs` to apply tiered rates per call.
+   */
+  callUsageByModel?: Record<string, Array<LanguageModelUsage>>;
+
+  /**
+   * When the loop started (ms since epoch). Set by RalphLoopAgent.
+   */
+  startTime?: number;
+
+  /**
+   * Results of every verifyCompletion call so far, oldest first.
+   * Set by RalphLoopAgent.
+   */
+  verifications?: Array<VerifyCompletionResult>;
 };
 
 /**
- * A function that determines when to stop the Ralph loop.
- * Return true to stop, false to continue.
+ * What a stop condition limits. Used to derive the loop's completion reason:
+ * - `iterations`: the attempt limit ('max-iterations')
+ * - `budget`: tokens, cost or time ('budget-exceeded')
+ * - `custom`: anything else ('stop-condition')
  */
-export type RalphStopCondition<TOOLS extends ToolSet = {}> = (
-  context: RalphStopConditionContext<TOOLS>
-) => PromiseLike<boolean> | boolean;
+export type RalphStopConditionKind = 'iterations' | 'budget' | 'custom';
+
+/**
+ * Budget left before a stop condition is met.
+ */
+export type RalphRemainingBudget = {
+  /** Total tokens left. */
+  tokens?: number;
+  /** Dollars left. */
+  cost?: number;
+  /** Milliseconds left. */
+  durationMs?: number;
+};
 
 /**
- * Cost rates per million tokens.
+ * A function that determines when to stop the Ralph loop.
+ * Return true to stop, false to continue.
+ *
+ * Built-in conditions also carry an id, a kind and a human-readable message
+ * so the loop can report which condition ended it. Plain functions work too
+ * and are reported as `custom`.
  */
-export type CostRates = {
-  inputCostPerMillionTokens: number;
-  outputCostPerMillionTokens: number;
-  cacheReadCostPerMillionTokens?: number;
-  cacheWriteCostPerMillionTokens?: number;
+export type RalphStopCondition<TOOLS extends ToolSet = {}> = {
+  (context: RalphStopConditionContext<TOOLS>): PromiseLike<boolean> | boolean;
+
+  /**
+   * Identifier of the condition (e.g. 'iteration-count', 'cost').
+   */
+  readonly id?: string;
+
+  /**
+   * What the condition limits.
+   */
+  readonly kind?: RalphStopConditionKind;
+
+  /**
+   * Describe why the condition was met.
+   */
+  readonly describe?: (
+    context: RalphStopConditionContext<TOOLS>
+  ) => PromiseLike<string> | string;
+
+  /**
+   * Budget left before the condition is met (token, cost and time limits).
+   * Used to give sub-agents a share of the remaining budget.
+   */
+  readonly remaining?: (context: RalphStopConditionContext<TOOLS>) => RalphRemainingBudget;
 };
 
 /**
- * Pricing for common models (cost per million tokens in USD).
+ * A stop condition that was met, as reported in the loop result.
  */
-const MODEL_PRICING: Record<string, CostRates> = {
-  // Anthropic - Haiku models
-  'anthropic/claude-3-haiku': { 
-    inputCostPerMillionTokens: 0.25, 
-    outputCostPerMillionTokens: 1.25,
-    cacheReadCostPerMillionTokens: 0.03,
-    cacheWriteCostPerMillionTokens: 0.30,
-  },
-  'anthropic/claude-3.5-haiku': { 
-    inputCostPerMillionTokens: 0.80, 
-    outputCostPerMillionTokens: 4.00,
-    cacheReadCostPerMillionTokens: 0.08,
-    cacheWriteCostPerMillionTokens: 1.00,
-  },
-  'anthropic/claude-haiku-4.5': { 
-    inputCostPerMillionTokens: 1.00, 
-    outputCostPerMillionTokens: 5.00,
-    cacheReadCostPerMillionTokens: 0.10,
-    cacheWriteCostPerMillionTokens: 1.25,
-  },
-  // Anthropic - Sonnet models
-  'anthropic/claude-sonnet-4.5': { 
-    inputCostPerMillionTokens: 3.0, 
-    outputCostPerMillionTokens: 15.0,
-    cacheReadCostPerMillionTokens: 0.30,
-    cacheWriteCostPerMillionTokens: 3.75,
-  },
-  'anthropic/claude-3.7-sonnet': { 
-    inputCostPerMillionTokens: 3.0, 
-    outputCostPerMillionTokens: 15.0,
-    cacheReadCostPerMillionTokens: 0.30,
-    cacheWriteCostPerMillionTokens: 3.75,
-  },
-  'anthropic/claude-sonnet-4': { 
-    inputCostPerMillionTokens: 3.0, 
-    outputCostPerMillionTokens: 15.0,
-    cacheReadCostPerMillionTokens: 0.30,
-    cacheWriteCostPerMillionTokens: 3.75,
-  },
-  'anthropic/claude-3.5-sonnet': { 
-    inputCostPerMillionTokens: 3.0, 
-    outputCostPerMillionTokens: 15.0,
-    cacheReadCostPerMillionTokens: 0.30,
-    cacheWriteCostPerMillionTokens: 3.75,
-  },
-  'anthropic/claude-3.5-sonnet-20241022': { 
-    inputCostPerMillionTokens: 3.0, 
-    outputCostPerMillionTokens: 15.0,
-    // No caching for this model
-  },
-  // Anthropic - Opus models
-  'anthropic/claude-opus-4.5': { 
-    inputCostPerMillionTokens: 5.0, 
-    outputCostPerMillionTokens: 25.0,
-    cacheReadCostPerMillionTokens: 0.50,
-    cacheWriteCostPerMillionTokens: 6.25,
-  },
-  'anthropic/claude-opus-4.1': { 
-    inputCostPerMillionTokens: 15.0, 
-    outputCostPerMillionTokens: 75.0,
-    cacheReadCostPerMillionTokens: 1.50,
-    cacheWriteCostPerMillionTokens: 18.75,
-  },
-  'anthropic/claude-opus-4': { 
-    inputCostPerMillionTokens: 15.0, 
-    outputCostPerMillionTokens: 75.0,
-    cacheReadCostPerMillionTokens: 1.50,
-    cacheWriteCostPerMillionTokens: 18.75,
-  },
-  'anthropic/claude-3-opus': { 
-    inputCostPerMillionTokens: 15.0, 
-    outputCostPerMillionTokens: 75.0,
-    // No caching for this model
-  },
-  // OpenAI
-  'openai/gpt-4o': { inputCostPerMillionTokens: 2.5, outputCostPerMillionTokens: 10.0 },
-  'openai/gpt-4o-mini': { inputCostPerMillionTokens: 0.15, outputCostPerMillionTokens: 0.6 },
-  'openai/gpt-4-turbo': { inputCostPerMillionTokens: 10.0, outputCostPerMillionTokens: 30.0 },
-  'openai/o1': { inputCostPerMillionTokens: 15.0, outputCostPerMillionTokens: 60.0 },
-  'openai/o1-mini': { inputCostPerMillionTokens: 1.1, outputCostPerMillionTokens: 4.4 },
-  'openai/o3-mini': { inputCostPerMillionTokens: 1.1, outputCostPerMillionTokens: 4.4 },
-  // Google
-  'google/gemini-2.5-pro': { inputCostPerMillionTokens: 1.25, outputCostPerMillionTokens: 10.0 },
-  'google/gemini-2.5-flash': { inputCostPerMillionTokens: 0.15, outputCostPerMillionTokens: 0.6 },
-  'google/gemini-2.0-flash': { inputCostPerMillionTokens: 0.1, outputCostPerMillionTokens: 0.4 },
-  // xAI
-  'xai/grok-3': { inputCostPerMillionTokens: 3.0, outputCostPerMillionTokens: 15.0 },
-  'xai/grok-3-mini': { inputCostPerMillionTokens: 0.3, outputCostPerMillionTokens: 0.5 },
-  // DeepSeek
-  'deepseek/deepseek-chat': { inputCostPerMillionTokens: 0.14, outputCostPerMillionTokens: 0.28 },
-  'deepseek/deepseek-reasoner': { inputCostPerMillionTokens: 0.55, outputCostPerMillionTokens: 2.19 },
+export type RalphStopConditionInfo = {
+  readonly id: string;
+  readonly kind: RalphStopConditionKind;
+  readonly message: string;
 };
 
 /**
- * Get pricing for a model.
+ * Create a stop condition with an id and a human-readable message.
+ *
+ * @example
+ * ```ts
+ * const noMoreThanTenFiles = namedStopCondition({
+ *   id: 'files-modified',
+ *   message: 'Modified more than 10 files',
+ *   isMet: ({ allResults }) => countModifiedFiles(allResults) > 10,
+ * });
+ * ```
  */
-export function getModelPricing(model: string): CostRates | undefined {
-  return MODEL_PRICING[model];
+export function namedStopCondition<TOOLS extends ToolSet = any>({
+  id,
+  kind = 'custom',
+  message,
+  isMet,
+  remaining,
+}: {
+  id: string;
+  kind?: RalphStopConditionKind;
+  message:
+    | string
+    | ((context: RalphStopConditionContext<TOOLS>) => PromiseLike<string> | string);
+  isMet: (context: RalphStopConditionContext<TOOLS>) => PromiseLike<boolean> | boolean;
+  remaining?: (context: RalphStopConditionContext<TOOLS>) => RalphRemainingBudget;
+}): RalphStopCondition<TOOLS> {
+  return Object.assign(
+    (context: RalphStopConditionContext<TOOLS>) => isMet(context),
+    {
+      id,
+      kind,
+      describe: typeof message === 'string' ? () => message : message,
+      remaining,
+    }
+  );
 }
 
 /**
@@ -243,37 +256,6 @@ export function aggregateStepUsage<TOOLS extends ToolSet>(
   };
 }
 
-/**
- * Calculate cost from usage and rates.
- * Accounts for prompt caching if cache token details are available.
- */
-export function calculateCost(usage: LanguageModelUsage, rates: CostRates): number {
-  const outputTokens = usage.outputTokens ?? 0;
-  const cacheReadTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0;
-  const cacheWriteTokens = usage.inputTokenDetails?.cacheWriteTokens ?? 0;
-  
-  // Calculate input cost with cache awareness
-  let inputCost: number;
-  if (cacheReadTokens > 0 || cacheWriteTokens > 0) {
-    // Cache is being used - calculate with cache rates
-    const uncachedInputTokens = (usage.inputTokens ?? 0) - cacheReadTokens - cacheWriteTokens;
-    const cacheReadRate = rates.cacheReadCostPerMillionTokens ?? rates.inputCostPerMillionTokens;
-    const cacheWriteRate = rates.cacheWriteCostPerMillionTokens ?? rates.inputCostPerMillionTokens;
-    
-    inputCost = 
-      (uncachedInputTokens / 1_000_000) * rates.inputCostPerMillionTokens +
-      (cacheReadTokens / 1_000_000) * cacheReadRate +
-      (cacheWriteTokens / 1_000_000) * cacheWriteRate;
-  } else {
-    // No cache info - use standard input rate
-    inputCost = ((usage.inputTokens ?? 0) / 1_000_000) * rates.inputCostPerMillionTokens;
-  }
-  
-  const outputCost = (outputTokens / 1_000_000) * rates.outputCostPerMillionTokens;
-  
-  return inputCost + outputCost;
-}
-
 /**
  * Stop when iteration count reaches the specified number.
  *
@@ -283,7 +265,12 @@ export function calculateCost(usage: LanguageModelUsage, rates: CostRates): numb
  * ```
  */
 export function iterationCountIs(count: number): RalphStopCondition<any> {
-  return ({ iteration }) => iteration >= count;
+  return namedStopCondition({
+    id: 'iteration-count',
+    kind: 'iterations',
+    message: `Reached the limit of ${count} iterations`,
+    isMet: ({ iteration }) => iteration >= count,
+  });
 }
 
 /**
@@ -295,7 +282,16 @@ export function iterationCountIs(count: number): RalphStopCondition<any> {
  * ```
  */
 export function tokenCountIs(maxTokens: number): RalphStopCondition<any> {
-  return ({ totalUsage }) => (totalUsage.totalTokens ?? 0) >= maxTokens;
+  return namedStopCondition({
+    id: 'token-count',
+    kind: 'budget',
+    message: ({ totalUsage }) =>
+      `Used ${totalUsage.totalTokens ?? 0} tokens (limit ${maxTokens})`,
+    isMet: ({ totalUsage }) => (totalUsage.totalTokens ?? 0) >= maxTokens,
+    remaining: ({ totalUsage }) => ({
+      tokens: Math.max(0, maxTokens - (totalUsage.totalTokens ?? 0)),
+    }),
+  });
 }
 
 /**
@@ -307,7 +303,13 @@ export function tokenCountIs(maxTokens: number): RalphStopCondition<any> {
  * ```
  */
 export function inputTokenCountIs(maxTokens: number): RalphStopCondition<any> {
-  return ({ totalUsage }) => (totalUsage.inputTokens ?? 0) >= maxTokens;
+  return namedStopCondition({
+    id: 'input-token-count',
+    kind: 'budget',
+    message: ({ totalUsage }) =>
+      `Used ${totalUsage.inputTokens ?? 0} input tokens (limit ${maxTokens})`,
+    isMet: ({ totalUsage }) => (totalUsage.inputTokens ?? 0) >= maxTokens,
+  });
 }
 
 /**
@@ -319,17 +321,26 @@ export function inputTokenCountIs(maxTokens: number): RalphStopCondition<any> {
  * ```
  */
 export function outputTokenCountIs(maxTokens: number): RalphStopCondition<any> {
-  return ({ totalUsage }) => (totalUsage.outputTokens ?? 0) >= maxTokens;
+  return namedStopCondition({
+    id: 'output-token-count',
+    kind: 'budget',
+    message: ({ totalUsage }) =>
+      `Used ${totalUsage.outputTokens ?? 0} output tokens (limit ${maxTokens})`,
+    isMet: ({ totalUsage }) => (totalUsage.outputTokens ?? 0) >= maxTokens,
+  });
 }
 
 /**
  * Stop when cost reaches the specified amount in USD.
  *
  * Can infer pricing from the model, use an explicit model, or provide custom rates.
+ * When inferred, usage of each model is priced at that model's rates.
+ * Models are looked up with `getModelPricing()`; `onUnknownModel` overrides
+ * the behavior set with `setUnknownModelBehavior()` for models without pricing.
  *
  * @example
  * ```ts
- * // Infer from agent's model
+ * // Infer from agent's model(s)
  * stopWhen: costIs(2.00)
  *
  * // Explicit model
@@ -340,38 +351,322 @@ export function outputTokenCountIs(maxTokens: number): RalphStopCondition<any> {
  *   inputCostPerMillionTokens: 3.00,
  *   outputCostPerMillionTokens: 15.00
  * })
+ *
+ * // Count local models without pricing as free
+ * stopWhen: costIs(2.00, undefined, { onUnknownModel: 'zero' })
  * ```
  */
 export function costIs(
   maxCostDollars: number,
-  ratesOrModel?: CostRates | string
+  ratesOrModel?: CostRates | string,
+  options: { onUnknownModel?: UnknownModelBehavior } = {}
 ): RalphStopCondition<any> {
-  return ({ totalUsage, model }) => {
-    let rates: CostRates;
+  const getRates = (model: string): CostRates =>
+    resolveModelPricing(model, options.onUnknownModel);
+
+  const getCost = ({
+    totalUsage,
+    model,
+    usageByModel,
+    callUsageByModel,
+  }: RalphStopConditionContext<any>): number => {
+    // Price each model call on its own when known, so tiers apply per call
+    const allUsage = callUsageByModel ? Object.values(callUsageByModel).flat() : totalUsage;
 
     if (typeof ratesOrModel === 'object') {
       // Explicit rates provided
-      rates = ratesOrModel;
-    } else {
-      // Look up model pricing
-      const modelToUse = typeof ratesOrModel === 'string' ? ratesOrModel : model;
-      const pricing = getModelPricing(modelToUse);
-
-      if (!pricing) {
-        throw new Error(
-          `Unknown model "${modelToUse}". Provide explicit rates:\n` +
-            `costIs(${maxCostDollars}, { inputCostPerMillionTokens: X, outputCostPerMillionTokens: Y })`
-        );
-      }
+      return calculateCost(allUsage, ratesOrModel);
+    }
+    if (typeof ratesOrModel === 'string') {
+      // Explicit model provided
+      return calculateCost(allUsage, getRates(ratesOrModel));
+    }
+
+    // Price each model's usage at its own rates
+    const entries = Object.entries(callUsageByModel ?? usageByModel ?? {});
+    if (entries.length > 0) {
+      return entries.reduce(
+        (sum, [modelId, usage]) => sum + calculateCost(usage, getRates(modelId)),
+        0
+      );
+    }
+
+    return calculateCost(allUsage, getRates(model));
+  };
+
+  return namedStopCondition({
+    id: 'cost',
+    kind: 'budget',
+    message: context =>
+      `Spent $${getCost(context).toFixed(4)} (budget $${maxCostDollars.toFixed(2)})`,
+    isMet: context => getCost(context) >= maxCostDollars,
+    remaining: context => ({ cost: Math.max(0, maxCostDollars - getCost(context)) }),
+  });
+}
+
+/**
+ * Stop once the loop has been running for a given time.
+ *
+ * @param maxDurationMs - Maximum wall-clock time in milliseconds
+ */
+export function wallClockIs(maxDurationMs: number): RalphStopCondition<any> {
+  const getElapsed = ({ startTime }: RalphStopConditionContext<any>): number =>
+    startTime === undefined ? 0 : Date.now() - startTime;
+
+  return namedStopCondition({
+    id: 'wall-clock',
+    kind: 'budget',
+    message: context =>
+      `Ran for ${Math.round(getElapsed(context) / 1000)}s (limit ${Math.round(maxDurationMs / 1000)}s)`,
+    isMet: context => context.startTime !== undefined && getElapsed(context) >= maxDurationMs,
+    remaining: context => ({ durationMs: Math.max(0, maxDurationMs - getElapsed(context)) }),
+  });
+}
+
+/**
+ * Throws unless the count of a count-based stop condition is a positive integer.
+ */
+function assertCount(name: string, count: number): void {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${name} requires a positive integer, got ${count}`);
+  }
+}
+
+/**
+ * Stop when the last N iterations made no tool calls (the agent stopped acting).
+ */
+export function noToolCallsFor(iterations: number): RalphStopCondition<any> {
+  assertCount('noToolCallsFor', iterations);
+  return namedStopCondition({
+    id: 'no-tool-calls',
+    message: `No tool calls in the last ${iterations} iterations`,
+    isMet: ({ allResults }) => {
+      const recent = allResults.slice(allResults.length - iterations);
+      return (
+        recent.length >= iterations &&
+        recent.every(result => result.steps.every(step => step.toolCalls.length === 0))
+      );
+    },
+  });
+}
+
+/**
+ * Stop after verifyCompletion has rejected the work N times.
+ */
+export function verificationFailedTimes(count: number): RalphStopCondition<any> {
+  assertCount('verificationFailedTimes', count);
+  const getFailures = ({ verifications }: RalphStopConditionContext<any>): number =>
+    (verifications ?? []).filter(verification => !verification.complete).length;
+
+  return namedStopCondition({
+    id: 'verification-failed',
+    message: `Verification failed ${count} times`,
+    isMet: context => getFailures(context) >= count,
+  });
+}
 
-      rates = pricing;
+/**
+ * Stop when the share of failed tool calls reaches a ratio.
+ *
+ * @param ratio - Error rate between 0 and 1
+ * @param options.minToolCalls - Tool calls required before the rate is evaluated (default: 5)
+ */
+export function toolErrorRateIs(
+  ratio: number,
+  { minToolCalls = 5 }: { minToolCalls?: number } = {}
+): RalphStopCondition<any> {
+  const getCounts = ({ allResults }: RalphStopConditionContext<any>) => {
+    let errors = 0;
+    let total = 0;
+    for (const result of allResults) {
+      for (const step of result.steps) {
+        for (const part of step.content) {
+          if (part.type === 'tool-error') {
+            errors++;
+            total++;
+          } else if (part.type === 'tool-result') {
+            total++;
+          }
+        }
+      }
     }
+    return { errors, total };
+  };
+
+  return namedStopCondition({
+    id: 'tool-error-rate',
+    message: context => {
+      const { errors, total } = getCounts(context);
+      return `${errors} of ${total} tool calls failed (limit ${Math.round(ratio * 100)}%)`;
+    },
+    isMet: context => {
+      const { errors, total } = getCounts(context);
+      return total >= minToolCalls && errors / total >= ratio;
+    },
+  });
+}
+
+/**
+ * Stop when the same tool call (same input and same outcome) was made N times.
+ * Catches runs stuck repeating a failing command or rewriting the same file.
+ */
+export function repeatedActionsIs(count: number): RalphStopCondition<any> {
+  return namedStopCondition({
+    id: 'repeated-actions',
+    message: ({ allResults }) => {
+      const [action] = findRepeatedActions(allResults, count);
+      return action
+        ? `Repeated ${action.toolName} ${action.count} times with the same input and result`
+        : `Repeated an action ${count} times`;
+    },
+    isMet: ({ allResults }) => findRepeatedActions(allResults, count).length > 0,
+  });
+}
+
+/**
+ * Pick the kind that best describes a group of conditions.
+ * Budget limits take precedence over iteration limits.
+ */
+function combineKinds(conditions: Array<RalphStopCondition<any>>): RalphStopConditionKind {
+  const kinds = conditions.map(condition => condition.kind ?? 'custom');
+  if (kinds.includes('budget')) return 'budget';
+  if (kinds.includes('iterations')) return 'iterations';
+  return 'custom';
+}
 
-    const currentCost = calculateCost(totalUsage, rates);
-    return currentCost >= maxCostDollars;
+/**
+ * Stop only when all conditions are met.
+ *
+ * @example
+ * ```ts
+ * // At least 5 iterations AND over $3
+ * stopWhen: and(iterationCountIs(5), costIs(3.00))
+ * ```
+ */
+export function and<TOOLS extends ToolSet = any>(
+  ...conditions: Array<RalphStopCondition<TOOLS>>
+): RalphStopCondition<TOOLS> {
+  return namedStopCondition({
+    id: `and(${conditions.map(condition => condition.id ?? 'custom').join(', ')})`,
+    kind: combineKinds(conditions),
+    message: async context => {
+      const infos = await Promise.all(
+        conditions.map(condition => describeStopCondition(condition, context))
+      );
+      return infos.map(info => info.message).join(' and ');
+    },
+    isMet: async context => {
+      if (conditions.length === 0) return false;
+      const results = await Promise.all(conditions.map(condition => condition(context)));
+      return results.every(result => result);
+    },
+  });
+}
+
+/**
+ * Stop when any condition is met. Useful inside `and()`;
+ * at the top level an array of conditions behaves the same.
+ */
+export function or<TOOLS extends ToolSet = any>(
+  ...conditions: Array<RalphStopCondition<TOOLS>>
+): RalphStopCondition<TOOLS> {
+  return namedStopCondition({
+    id: `or(${conditions.map(condition => condition.id ?? 'custom').join(', ')})`,
+    kind: combineKinds(conditions),
+    message: async context => {
+      const met = await getMetRalphStopConditions({ stopConditions: conditions, context });
+      return met.map(info => info.message).join(' or ');
+    },
+    isMet: context => isRalphStopConditionMet({ stopConditions: conditions, context }),
+    remaining: context => getRemainingBudget({ stopConditions: conditions, context }),
+  });
+}
+
+/**
+ * Stop when a condition is NOT met.
+ *
+ * @example
+ * ```ts
+ * // Stop as soon as the build breaks
+ * stopWhen: not(namedStopCondition({
+ *   id: 'build-passing',
+ *   message: 'The build passes',
+ *   isMet: () => buildPasses(),
+ * }))
+ * ```
+ */
+export function not<TOOLS extends ToolSet = any>(
+  condition: RalphStopCondition<TOOLS>
+): RalphStopCondition<TOOLS> {
+  const id = condition.id ?? 'custom';
+  return namedStopCondition({
+    id: `not(${id})`,
+    message: `Condition "${id}" is not met`,
+    isMet: async context => !(await condition(context)),
+  });
+}
+
+/**
+ * Describe a stop condition that was met.
+ */
+export async function describeStopCondition<TOOLS extends ToolSet>(
+  condition: RalphStopCondition<TOOLS>,
+  context: RalphStopConditionContext<TOOLS>
+): Promise<RalphStopConditionInfo> {
+  return {
+    id: condition.id ?? 'custom',
+    kind: condition.kind ?? 'custom',
+    message: (await condition.describe?.(context)) ?? 'Custom stop condition met',
   };
 }
 
+/**
+ * Get all stop conditions that are met.
+ */
+export async function getMetRalphStopConditions<TOOLS extends ToolSet>({
+  stopConditions,
+  context,
+}: {
+  stopConditions: Array<RalphStopCondition<TOOLS>>;
+  context: RalphStopConditionContext<TOOLS>;
+}): Promise<Array<RalphStopConditionInfo>> {
+  const results = await Promise.all(
+    stopConditions.map((condition) => condition(context))
+  );
+  return Promise.all(
+    stopConditions
+      .filter((_, index) => results[index])
+      .map((condition) => describeStopCondition(condition, context))
+  );
+}
+
+/**
+ * Get the budget left before any of the stop conditions is met:
+ * the smallest remaining tokens, cost and time of the budget conditions.
+ */
+export function getRemainingBudget<TOOLS extends ToolSet>({
+  stopConditions,
+  context,
+}: {
+  stopConditions: Array<RalphStopCondition<TOOLS>>;
+  context: RalphStopConditionContext<TOOLS>;
+}): RalphRemainingBudget {
+  const budget: RalphRemainingBudget = {};
+  for (const condition of stopConditions) {
+    const remaining = condition.remaining?.(context);
+    if (remaining?.tokens !== undefined) {
+      budget.tokens = Math.min(budget.tokens ?? Infinity, remaining.tokens);
+    }
+    if (remaining?.cost !== undefined) {
+      budget.cost = Math.min(budget.cost ?? Infinity, remaining.cost);
+    }
+    if (remaining?.durationMs !== undefined) {
+      budget.durationMs = Math.min(budget.durationMs ?? Infinity, remaining.durationMs);
+    }
+  }
+  return budget;
+}
+
 /**
  * Check if any stop condition is met.
  */
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { createSubAgentTool } from './ralph-sub-agent';
+import { tokenCountIs } from './ralph-stop-condition';
+import { textResponse, toolCallResponse } from './test-utils';
+
+// Parent that delegates once, then answers with text
+const createParentModel = () => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    modelId: 'parent',
+    doGenerate: async () =>
+      ++call === 1
+        ? toolCallResponse([{ toolName: 'delegate', input: { prompt: 'Fix package a' } }])
+        : textResponse('All packages fixed'),
+  });
+};
+
+describe('createSubAgentTool', () => {
+  it('should give the child a share of the budget and roll up its usage', async () => {
+    const childModel = new MockLanguageModelV3({
+      modelId: 'child',
+      doGenerate: async () => textResponse('Still working'),
+    });
+    const prompts: Array<string> = [];
+
+    const delegate = createSubAgentTool(
+      prompt => {
+        prompts.push(prompt);
+        return new RalphLoopAgent({
+          model: childModel,
+          verifyCompletion: () => ({ complete: false }),
+        });
+      },
+      { budgetShare: 0.5 }
+    );
+
+    const parentModel = createParentModel();
+    const agent = new RalphLoopAgent({
+      model: parentModel,
+      tools: { delegate },
+      stopWhen: tokenCountIs(200),
+      verifyCompletion: () => ({ complete: true }),
+    });
+
+    const result = await agent.loop({ prompt: 'Fix all packages' });
+
+    expect(prompts).toEqual(['Fix package a']);
+    // 100 of the 200 tokens: the child stops after 4 iterations of 30 tokens
+    expect(childModel.doGenerateCalls).toHaveLength(4);
+    const toolResult = result.result!.steps[0]!.toolResults[0]!;
+    expect(toolResult.output).toMatchObject({
+      completionReason: 'budget-exceeded',
+      iterations: 4,
+      text: 'Still working',
+    });
+
+    expect(result.completionReason).toBe('verified');
+    expect(result.usageByModel['child']?.totalTokens).toBe(120);
+    expect(result.usageByModel['parent']?.totalTokens).toBe(60);
+    expect(result.totalUsage.totalTokens).toBe(180);
+  });
+
+  it('should roll up the usage of a child that throws', async () => {
+    const childModel = new MockLanguageModelV3({
+      modelId: 'child',
+      doGenerate: async () => textResponse('Still working'),
+    });
+    const delegate = createSubAgentTool(
+      () =>
+        new RalphLoopAgent({
+          model: childModel,
+          onIterationEnd: () => {
+            throw new Error('Crashed');
+          },
+        })
+    );
+
+    const agent = new RalphLoopAgent({
+      model: createParentModel(),
+      tools: { delegate },
+      verifyCompletion: () => ({ complete: true }),
+    });
+
+    const result = await agent.loop({ prompt: 'Fix all packages' });
+
+    expect(result.result!.steps[0]!.content).toContainEqual(
+      expect.objectContaining({ type: 'tool-error' })
+    );
+    expect(result.usageByModel['child']?.totalTokens).toBe(30);
+  });
+
+  it("should pass the parent's abort signal to the child", async () => {
+    const controller = new AbortController();
+    let childSignal: AbortSignal | undefined;
+
+    const childModel = new MockLanguageModelV3({
+      doGenerate: async ({ abortSignal }) => {
+        childSignal = abortSignal;
+        controller.abort(new Error('Stopped by the user'));
+        abortSignal?.throwIfAborted();
+        return textResponse('Interrupted');
+      },
+    });
+
+    const agent = new RalphLoopAgent({
+      model: createParentModel(),
+      maxRetries: 0,
+      tools: {
+        delegate: createSubAgentTool(
+          () => new RalphLoopAgent({ model: childModel, maxRetries: 0 })
+        ),
+      },
+      verifyCompletion: () => ({ complete: true }),
+    });
+
+    const result = await agent.loop({ prompt: 'Fix all packages', abortSignal: controller.signal });
+
+    expect(childSignal?.aborted).toBe(true);
+    expect(childModel.doGenerateCalls).toHaveLength(1);
+    expect(result.result!.steps[0]!.content).toContainEqual(
+      expect.objectContaining({ type: 'tool-error', toolName: 'delegate' })
+    );
+  });
+
+  it('should work outside of a loop without a budget', async () => {
+    const delegate = createSubAgentTool(
+      () =>
+        new RalphLoopAgent({
+          model: new MockLanguageModelV3({ doGenerate: async () => textResponse('Done') }),
+          verifyCompletion: () => ({ complete: true }),
+        })
+    );
+
+    const output = await delegate.execute!({ prompt: 'Fix it' }, { toolCallId: '1', messages: [] });
+
+    expect(output).toMatchObject({ completionReason: 'verified', text: 'Done' });
+  });
+});
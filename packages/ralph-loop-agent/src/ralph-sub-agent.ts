@@ -0,0 +1,146 @@
+import { tool, type LanguageModelUsage, type Tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { RalphLoopAgent } from './ralph-loop-agent';
+import {
+  costIs,
+  tokenCountIs,
+  wallClockIs,
+  type RalphRemainingBudget,
+  type RalphStopCondition,
+} from './ralph-stop-condition';
+
+/**
+ * What a running loop shares with its tools.
+ */
+export interface RalphLoopRuntime {
+  /**
+   * Budget left before the loop's stop conditions are met.
+   */
+  getRemainingBudget(): RalphRemainingBudget;
+
+  /**
+   * Add usage spent inside a tool (e.g. by a sub-agent) to the loop's usage,
+   * with the usage of each model call as `calls` (for pricing with tiers).
+   */
+  reportUsage(usage: LanguageModelUsage, model: string, calls?: Array<LanguageModelUsage>): void;
+}
+
+/**
+ * Tools that need the runtime of the loop that calls them carry a function
+ * under this key that creates a copy bound to that runtime.
+ */
+const BIND_TO_LOOP = Symbol.for('ralph-loop-agent.bindToLoop');
+
+type LoopBindableTool = Tool & {
+  [BIND_TO_LOOP]?: (runtime: RalphLoopRuntime) => Tool;
+};
+
+/**
+ * Bind the tools that need the loop runtime to it; other tools are returned as is.
+ */
+export function bindToolsToLoop<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  runtime: RalphLoopRuntime
+): TOOLS {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, t]) => [
+      name,
+      (t as LoopBindableTool)[BIND_TO_LOOP]?.(runtime) ?? t,
+    ])
+  ) as TOOLS;
+}
+
+/**
+ * Options for `createSubAgentTool`.
+ */
+export interface SubAgentToolOptions {
+  /**
+   * Tells the parent model when to delegate.
+   * Default: a generic delegation description.
+   */
+  description?: string;
+
+  /**
+   * Share of the parent's remaining token and cost budget a sub-agent run
+   * may use, between 0 and 1. Default: 0.5
+   */
+  budgetShare?: number;
+}
+
+/**
+ * Expose a child `RalphLoopAgent` as a tool the parent can call with a sub-task.
+ *
+ * Each call creates a child agent with `agentFactory` and runs its loop with:
+ * - a share of the parent loop's remaining token and cost budget
+ *   (from `tokenCountIs` and `costIs` stop conditions), and the time left
+ *   before a `wallClockIs` condition of the parent is met
+ * - the parent's abort signal
+ *
+ * The child's usage is added to the parent loop's `totalUsage` and
+ * `usageByModel` as it is spent, also when the child throws or is aborted.
+ * Only the child's final text goes back into the parent's context.
+ *
+ * A cost budget prices the child's models: with the default unknown-model
+ * behavior, the child's `costIs` condition throws (and its loop ends with an
+ * error) if a model is not in the pricing registry. Register it with
+ * `registerModelPricing()` or change the behavior with `setUnknownModelBehavior()`.
+ *
+ * @example
+ * ```ts
+ * const fixPackage = createSubAgentTool(
+ *   () => new RalphLoopAgent({ model, tools: codingTools, verifyCompletion: testsPass }),
+ *   { description: 'Fix one package of the monorepo. Give the package path and what to fix.' },
+ * );
+ *
+ * const agent = new RalphLoopAgent({
+ *   model,
+ *   tools: { ...codingTools, fixPackage },
+ *   stopWhen: [iterationCountIs(50), costIs(20)],
+ * });
+ * ```
+ */
+export function createSubAgentTool(
+  agentFactory: (prompt: string) => RalphLoopAgent<any, any> | Promise<RalphLoopAgent<any, any>>,
+  { description, budgetShare = 0.5 }: SubAgentToolOptions = {}
+) {
+  const createTool = (runtime?: RalphLoopRuntime) =>
+    tool({
+      description:
+        description ??
+        'Delegate a self-contained sub-task to a sub-agent that works on it until it is done, then returns its final response.',
+      inputSchema: z.object({
+        prompt: z.string().describe('The sub-task, with all the context the sub-agent needs'),
+      }),
+      execute: async ({ prompt }, { abortSignal }) => {
+        const stopWhen: Array<RalphStopCondition<any>> = [];
+        const budget = runtime?.getRemainingBudget();
+        if (budget?.tokens !== undefined) {
+          stopWhen.push(tokenCountIs(Math.floor(budget.tokens * budgetShare)));
+        }
+        if (budget?.cost !== undefined) {
+          stopWhen.push(costIs(budget.cost * budgetShare));
+        }
+        // The parent waits for the sub-agent, so it gets all of the remaining time
+        if (budget?.durationMs !== undefined) {
+          stopWhen.push(wallClockIs(budget.durationMs));
+        }
+
+        const agent = await agentFactory(prompt);
+        const result = await agent.loop({
+          prompt,
+          abortSignal,
+          stopWhen,
+          onUsage: (usage, model, calls) => runtime?.reportUsage(usage, model, calls),
+        });
+
+        return {
+          completionReason: result.completionReason,
+          reason: result.reason,
+          iterations: result.iterations,
+          text: result.text,
+        };
+      },
+    });
+
+  return Object.assign(createTool(), { [BIND_TO_LOOP]: createTool });
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { z } from 'zod';
+import { RalphLoopAgent } from './ralph-loop-agent';
+import { iterationCountIs } from './ralph-stop-condition';
+import { RalphTaskList, extractTasksFromPrompt } from './ralph-tasks';
+import { textResponse, toolCallResponse } from './test-utils';
+
+describe('extractTasksFromPrompt', () => {
+  it('should prefer checkboxes and keep checked ones as done', () => {
+    const prompt = `Migrate the database.
+
+- [ ] Add the users table
+- [x] Write the migration script
+* Some note that is not a task`;
+
+    expect(extractTasksFromPrompt(prompt)).toEqual([
+      { title: 'Add the users table', status: 'pending' },
+      { title: 'Write the migration script', status: 'done' },
+    ]);
+  });
+
+  it('should fall back to bulleted and numbered items', () => {
+    expect(extractTasksFromPrompt('Steps:\n1. Build\n2) Test\n- Deploy')).toEqual([
+      'Build',
+      'Test',
+      'Deploy',
+    ]);
+    expect(extractTasksFromPrompt('Just fix the bug')).toEqual([]);
+  });
+
+  it('should only take list items from a task section', () => {
+    const prompt = `Migrate the database.
+
+Constraints:
+- Keep the API stable
+
+## Tasks
+1. Add the users table
+
+2. Drop the legacy table
+
+## Notes
+- The legacy table is read-only`;
+
+    expect(extractTasksFromPrompt(prompt)).toEqual(['Add the users table', 'Drop the legacy table']);
+    expect(extractTasksFromPrompt('Fix the bug.\n- Do not touch the API')).toEqual([]);
+  });
+});
+
+describe('RalphTaskList', () => {
+  it('should track status and report the open tasks', () => {
+    const tasks = new RalphTaskList(['Build', { id: 'test', title: 'Test' }]);
+
+    expect(tasks.updateTask('1', 'done')).toMatchObject({ id: '1', status: 'done' });
+    expect(tasks.updateTask('missing', 'done')).toBeUndefined();
+    tasks.updateTask('test', 'blocked', 'Flaky CI');
+
+    expect(tasks.verify()).toEqual({
+      complete: false,
+      reason: '1 of 2 tasks are not done:\n- [ ] test: Test (blocked) - Flaky CI',
+    });
+    expect(tasks.buildContext()).toContain('1 of 2 done. Remaining:');
+
+    tasks.updateTask('test', 'done');
+    expect(tasks.verify().complete).toBe(true);
+  });
+
+  it('should add tasks with unused ids', () => {
+    const tasks = new RalphTaskList([{ id: '2', title: 'Build' }]);
+
+    expect(tasks.addTask('Test').id).toBe('3');
+    expect(tasks.getRemainingTasks()).toHaveLength(2);
+  });
+
+  it('should suffix duplicate ids', () => {
+    const tasks = new RalphTaskList([
+      { id: 'test', title: 'Unit tests' },
+      { id: 'test', title: 'E2E tests' },
+      { id: '1', title: 'Build' },
+    ]);
+
+    expect(tasks.getTasks().map(task => task.id)).toEqual(['test', 'test-2', '1']);
+  });
+});
+
+describe('checklist mode', () => {
+  // Marks one task done per iteration
+  const createModel = (taskIds: Array<string>) => {
+    let call = 0;
+    return new MockLanguageModelV3({
+      doGenerate: async () => {
+        call++;
+        // Odd calls update a task, even calls end the iteration
+        if (call % 2 === 1 && taskIds.length > 0) {
+          return toolCallResponse([
+            {
+              toolName: 'updateTask',
+              input: { id: taskIds.shift(), status: 'done' },
+              toolCallId: `call-${call}`,
+            },
+          ]);
+        }
+        return textResponse('Progress made');
+      },
+    });
+  };
+
+  it('should iterate until all tasks are done and report their status', async () => {
+    const mockModel = createModel(['1', '2']);
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      instructions: 'You are a migration agent.',
+      stopWhen: iterationCountIs(5),
+      tasks: ['Add the users table', 'Drop the legacy table'],
+    });
+
+    const result = await agent.loop({ prompt: 'Migrate the database' });
+
+    expect(result.completionReason).toBe('verified');
+    expect(result.iterations).toBe(2);
+    expect(result.tasks).toEqual([
+      { id: '1', title: 'Add the users table', status: 'done' },
+      { id: '2', title: 'Drop the legacy table', status: 'done' },
+    ]);
+
+    // The remaining tasks are injected once into the system message
+    const secondIteration = mockModel.doGenerateCalls[2]!.prompt;
+    const system = secondIteration.find(message => message.role === 'system')!;
+    expect(system.content).toContain('You are a migration agent.');
+    expect(system.content).toContain('1 of 2 done. Remaining:\n- [ ] 2: Drop the legacy table');
+    expect(String(system.content).split('## Tasks')).toHaveLength(2);
+    // The open tasks are the verification feedback
+    expect(JSON.stringify(secondIteration)).toContain('1 of 2 tasks are not done');
+  });
+
+  it('should keep the task tools active with activeTools', async () => {
+    const mockModel = createModel(['1']);
+    const agent = new RalphLoopAgent({
+      model: mockModel,
+      tools: {
+        build: tool({ inputSchema: z.object({}), execute: async () => 'ok' }),
+        deploy: tool({ inputSchema: z.object({}), execute: async () => 'ok' }),
+      },
+      activeTools: ['build'],
+      stopWhen: iterationCountIs(3),
+      tasks: ['Build'],
+    });
+
+    const result = await agent.loop({ prompt: 'Build it' });
+
+    expect(result.completionReason).toBe('verified');
+    expect(mockModel.doGenerateCalls[0]!.tools?.map(t => t.name)).toEqual([
+      'build',
+      'updateTask',
+      'addTask',
+    ]);
+  });
+
+  it('should extract the tasks from the prompt', async () => {
+    const agent = new RalphLoopAgent({
+      model: createModel(['2']),
+      stopWhen: iterationCountIs(3),
+      tasks: 'from-prompt',
+    });
+
+    const result = await agent.loop({
+      prompt: 'Migrate the database:\n- [x] Write the script\n- [ ] Run it',
+    });
+
+    expect(result.completionReason).toBe('verified');
+    expect(result.tasks?.map(task => task.status)).toEqual(['done', 'done']);
+  });
+});
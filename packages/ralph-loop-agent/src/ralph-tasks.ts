@@ -0,0 +1,207 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { VerifyCompletionResult } from './ralph-loop-agent-evaluator';
+
+/**
+ * Status of a checklist item.
+ */
+export type RalphTaskStatus = 'pending' | 'in-progress' | 'done' | 'blocked';
+
+/**
+ * A checklist item and its status.
+ */
+export interface RalphTask {
+  id: string;
+  title: string;
+  status: RalphTaskStatus;
+  /** Notes from the agent, e.g. why a task is blocked. */
+  notes?: string;
+}
+
+/**
+ * A checklist item as passed in the `tasks` setting.
+ */
+export type RalphTaskInput = string | { id?: string; title: string; status?: RalphTaskStatus };
+
+const TASK_STATUSES = ['pending', 'in-progress', 'done', 'blocked'] as const;
+
+/** A heading that starts a task section, e.g. `## Tasks` or `Steps:`. */
+const TASK_SECTION_HEADING = /^\s*(?:#{1,6}\s+)?(?:tasks|todo|to-do|checklist|steps)\s*:?\s*$/i;
+
+/**
+ * Extract a checklist from a prompt: markdown checkboxes (`- [ ] ...`, checked
+ * ones count as done), or else the bulleted and numbered list items of a task
+ * section (a `Tasks`, `TODO`, `Checklist` or `Steps` heading). Other list
+ * items, e.g. constraints or notes, are not tasks.
+ */
+export function extractTasksFromPrompt(prompt: string): Array<RalphTaskInput> {
+  const lines = prompt.split('\n');
+
+  const checkboxes = lines
+    .map(line => /^\s*[-*+]\s+\[([ xX])\]\s+(.+?)\s*$/.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null);
+  if (checkboxes.length > 0) {
+    return checkboxes.map(([, checked, title]) => ({
+      title: title!,
+      status: checked === ' ' ? 'pending' : 'done',
+    }));
+  }
+
+  const start = lines.findIndex(line => TASK_SECTION_HEADING.test(line));
+  if (start === -1) {
+    return [];
+  }
+
+  const titles: Array<string> = [];
+  for (const line of lines.slice(start + 1)) {
+    const title = /^\s*(?:[-*+]|\d+[.)])\s+(.+?)\s*$/.exec(line)?.[1];
+    if (title !== undefined) {
+      titles.push(title);
+    } else if (line.trim() !== '') {
+      // The section ends at the next heading or paragraph
+      break;
+    }
+  }
+  return titles;
+}
+
+/**
+ * The checklist of a loop in checklist mode.
+ *
+ * The agent works through the tasks with the `updateTask` and `addTask`
+ * tools; the remaining tasks are shown to it before every iteration.
+ */
+export class RalphTaskList {
+  private tasks: Array<RalphTask>;
+
+  constructor(tasks: Array<RalphTaskInput | RalphTask>) {
+    const ids = new Set<string>();
+    this.tasks = tasks.map((task, index) => {
+      // Duplicate ids get a suffix, so every task can be updated
+      const requested = (typeof task === 'string' ? undefined : task.id) ?? String(index + 1);
+      let id = requested;
+      for (let suffix = 2; ids.has(id); suffix++) {
+        id = `${requested}-${suffix}`;
+      }
+      ids.add(id);
+
+      return typeof task === 'string'
+        ? { id, title: task, status: 'pending' }
+        : { ...task, id, status: task.status ?? 'pending' };
+    });
+  }
+
+  /**
+   * All tasks with their current status.
+   */
+  getTasks(): Array<RalphTask> {
+    return this.tasks.map(task => ({ ...task }));
+  }
+
+  /**
+   * Tasks that are not done.
+   */
+  getRemainingTasks(): Array<RalphTask> {
+    return this.getTasks().filter(task => task.status !== 'done');
+  }
+
+  /**
+   * Update the status (and notes) of a task. Returns the updated task,
+   * or undefined if there is no task with the id.
+   */
+  updateTask(id: string, status: RalphTaskStatus, notes?: string): RalphTask | undefined {
+    const task = this.tasks.find(t => t.id === id);
+    if (!task) {
+      return undefined;
+    }
+    task.status = status;
+    if (notes !== undefined) {
+      task.notes = notes;
+    }
+    return { ...task };
+  }
+
+  /**
+   * Add a task discovered while working.
+   */
+  addTask(title: string): RalphTask {
+    const ids = new Set(this.tasks.map(task => task.id));
+    let next = this.tasks.length + 1;
+    while (ids.has(String(next))) {
+      next++;
+    }
+
+    const task: RalphTask = { id: String(next), title, status: 'pending' };
+    this.tasks.push(task);
+    return { ...task };
+  }
+
+  /**
+   * Check whether all tasks are done. Fails with the open tasks as feedback.
+   */
+  verify(): VerifyCompletionResult {
+    const remaining = this.getRemainingTasks();
+    if (remaining.length === 0) {
+      return { complete: true, reason: 'All tasks are done' };
+    }
+    return {
+      complete: false,
+      reason: `${remaining.length} of ${this.tasks.length} tasks are not done:\n${remaining.map(formatTask).join('\n')}`,
+    };
+  }
+
+  /**
+   * Describe the remaining tasks for the context injection.
+   */
+  buildContext(): string {
+    const remaining = this.getRemainingTasks();
+    const done = this.tasks.length - remaining.length;
+
+    if (remaining.length === 0) {
+      return `## Tasks\nAll ${this.tasks.length} tasks are done.`;
+    }
+    return [
+      '## Tasks',
+      `${done} of ${this.tasks.length} done. Remaining:`,
+      ...remaining.map(formatTask),
+      'Use updateTask to mark a task in-progress when you start it and done when it is finished.',
+    ].join('\n');
+  }
+
+  /**
+   * Tools for the agent to update the checklist.
+   */
+  createTools() {
+    return {
+      updateTask: tool({
+        description: 'Update the status of a task on the checklist',
+        inputSchema: z.object({
+          id: z.string().describe('The task id'),
+          status: z.enum(TASK_STATUSES).describe('The new status'),
+          notes: z.string().optional().describe('Notes, e.g. why the task is blocked'),
+        }),
+        execute: async ({ id, status, notes }) => {
+          const task = this.updateTask(id, status, notes);
+          if (!task) {
+            return { success: false, error: `Unknown task "${id}"` };
+          }
+          return { success: true, task, remaining: this.getRemainingTasks().length };
+        },
+      }),
+
+      addTask: tool({
+        description: 'Add a task to the checklist that is needed to finish the work',
+        inputSchema: z.object({
+          title: z.string().describe('What needs to be done'),
+        }),
+        execute: async ({ title }) => ({ success: true, task: this.addTask(title) }),
+      }),
+    };
+  }
+}
+
+function formatTask(task: RalphTask): string {
+  const status = task.status === 'pending' ? '' : ` (${task.status})`;
+  const notes = task.notes ? ` - ${task.notes}` : '';
+  return `- [ ] ${task.id}: ${task.title}${status}${notes}`;
+}
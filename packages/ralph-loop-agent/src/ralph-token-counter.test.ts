@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { RalphContextManager } from './ralph-context-manager';
+import {
+  createBpeTokenCounter,
+  estimateMessageTokens,
+  estimateTokens,
+  heuristicTokenCounter,
+  type TokenCounter,
+} from './ralph-token-counter';
+import { textResponse } from './test-utils';
+
+// One token per word
+const wordCounter: TokenCounter = {
+  countTokens: text => text.split(/\s+/).filter(Boolean).length,
+};
+
+describe('estimateTokens', () => {
+  it('should count 3.5 characters per token', () => {
+    expect(estimateTokens('a'.repeat(35))).toBe(10);
+    expect(estimateTokens('你好世界')).toBe(2);
+  });
+});
+
+describe('heuristicTokenCounter', () => {
+  it('should count non-ASCII code points as one token each', () => {
+    expect(heuristicTokenCounter.countTokens('a'.repeat(35))).toBe(10);
+    expect(heuristicTokenCounter.countTokens('你好世界')).toBe(4);
+    expect(heuristicTokenCounter.countTokens('😀😀')).toBe(2);
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('should count tool calls and tool results with the counter', () => {
+    expect(
+      estimateMessageTokens(
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Reading the file' },
+            {
+              type: 'tool-call',
+              toolCallId: 'call-1',
+              toolName: 'readFile',
+              input: { path: 'a b' },
+            },
+          ],
+        },
+        wordCounter
+      )
+    ).toBe(3 + 3);
+
+    expect(
+      estimateMessageTokens(
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call-1',
+              toolName: 'readFile',
+              output: { type: 'text', value: 'one two three four' },
+            },
+          ],
+        },
+        wordCounter
+      )
+    ).toBe(4);
+  });
+
+  it('should give images a flat estimate', () => {
+    expect(
+      estimateMessageTokens({
+        role: 'user',
+        content: [{ type: 'image', image: new Uint8Array(10) }],
+      })
+    ).toBe(1_600);
+  });
+});
+
+describe('createBpeTokenCounter', () => {
+  it('should count tokens exactly', async () => {
+    const counter = await createBpeTokenCounter();
+
+    expect(counter.countTokens('Hello world')).toBe(2);
+    // Special tokens count as text
+    expect(counter.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
+
+describe('RalphContextManager tokenCounter', () => {
+  it('should use the token counter for the budget', () => {
+    const manager = new RalphContextManager({ maxContextTokens: 1_000, tokenCounter: wordCounter });
+
+    manager.trackFileRead('a.ts', 'const a = 1;');
+    manager.addChangeLogEntry({ type: 'decision', summary: 'Use pnpm' });
+
+    expect(manager.getTokenBudget().used).toEqual({ files: 4, changeLog: 2, summaries: 0 });
+  });
+
+  it('should use the token counter to decide when to summarize', async () => {
+    const model = new MockLanguageModelV3({
+      doGenerate: async () => textResponse('Summary'),
+    });
+    // 20 words, but 97 heuristic tokens
+    const text = Array.from({ length: 20 }, () => 'abcdefghijklmnop').join(' ');
+    const messages = [{ role: 'user' as const, content: text }];
+
+    const heuristic = new RalphContextManager({ maxContextTokens: 100, recentIterationsToKeep: 1 });
+    const exact = new RalphContextManager({
+      maxContextTokens: 100,
+      recentIterationsToKeep: 1,
+      tokenCounter: wordCounter,
+    });
+
+    expect((await heuristic.prepareMessagesForIteration(messages, 2, model)).summarized).toBe(true);
+    expect((await exact.prepareMessagesForIteration(messages, 2, model)).summarized).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import type { ModelMessage } from '@ai-sdk/provider-utils';
+
+/**
+ * Counts tokens for context budgeting.
+ */
+export interface TokenCounter {
+  /**
+   * Count the tokens of a text.
+   */
+  countTokens(text: string): number;
+}
+
+/**
+ * Encodings supported by `createBpeTokenCounter()`.
+ */
+export type BpeEncoding = 'o200k_base' | 'cl100k_base';
+
+/**
+ * The part of a `gpt-tokenizer` encoding module that is used.
+ */
+type BpeEncodingModule = {
+  countTokens(text: string, options: { disallowedSpecial: Set<string> }): number;
+};
+
+/**
+ * Rough token count of an image or file part; providers charge by size,
+ * which the message does not tell reliably.
+ */
+const MEDIA_PART_TOKENS = 1_600;
+
+/**
+ * Rough token estimation (4 chars ≈ 1 token for English text).
+ * This is intentionally conservative.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+/**
+ * The default token counter: like `estimateTokens()` for ASCII text, but
+ * every other character (code point) counts as one token, which is closer
+ * for CJK text and emoji.
+ */
+export const heuristicTokenCounter: TokenCounter = {
+  countTokens(text) {
+    let ascii = 0;
+    let other = 0;
+    for (const char of text) {
+      if (char.charCodeAt(0) <= 0x7f) {
+        ascii++;
+      } else {
+        other++;
+      }
+    }
+    return Math.ceil(ascii / 3.5 + other);
+  },
+};
+
+/**
+ * Create a token counter that counts exactly with a BPE encoding
+ * (`o200k_base` for GPT-4o and later, `cl100k_base` for GPT-4). Other model
+ * families use different tokenizers, but their counts are usually much
+ * closer to these than to the heuristic.
+ *
+ * The encodings ship with the optional `gpt-tokenizer` package, so counting
+ * works offline. Install it to use this counter.
+ *
+ * @example
+ * ```ts
+ * contextManagement: {
+ *   tokenCounter: await createBpeTokenCounter('o200k_base'),
+ * }
+ * ```
+ */
+export async function createBpeTokenCounter(
+  encoding: BpeEncoding = 'o200k_base'
+): Promise<TokenCounter> {
+  let tokenizer: BpeEncodingModule;
+  try {
+    tokenizer =
+      encoding === 'cl100k_base'
+        ? await import('gpt-tokenizer/encoding/cl100k_base')
+        : await import('gpt-tokenizer/encoding/o200k_base');
+  } catch (error) {
+    throw new Error(
+      'createBpeTokenCounter requires the "gpt-tokenizer" package. ' +
+        'Install it with: npm install gpt-tokenizer',
+      { cause: error }
+    );
+  }
+
+  // Count special tokens in the text (e.g. <|endoftext|>) as plain text
+  const options = { disallowedSpecial: new Set<string>() };
+  return {
+    countTokens: text => tokenizer.countTokens(text, options),
+  };
+}
+
+/**
+ * Text of a tool result output, for counting.
+ */
+function getToolOutputText(output: unknown): string {
+  if (typeof output === 'string') {
+    return output;
+  }
+  if (typeof output === 'object' && output !== null && 'value' in output) {
+    const { value } = output as { value: unknown };
+    return typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  }
+  return JSON.stringify(output) ?? '';
+}
+
+/**
+ * Count the tokens of a ModelMessage: text and reasoning, tool call inputs
+ * and tool results are counted with the token counter, images and files as
+ * a flat estimate.
+ */
+export function estimateMessageTokens(
+  message: ModelMessage,
+  counter: TokenCounter = heuristicTokenCounter
+): number {
+  if (typeof message.content === 'string') {
+    return counter.countTokens(message.content);
+  }
+  if (!Array.isArray(message.content)) {
+    return 100;
+  }
+  return message.content.reduce((sum, part) => {
+    switch (part.type) {
+      case 'text':
+      case 'reasoning':
+        return sum + counter.countTokens(part.text);
+      case 'tool-call':
+        return sum + counter.countTokens(`${part.toolName} ${JSON.stringify(part.input) ?? ''}`);
+      case 'tool-result': {
+        const output = part.output;
+        if (output.type === 'content') {
+          return (
+            sum +
+            output.value.reduce(
+              (contentSum, item) =>
+                contentSum +
+                (item.type === 'text' ? counter.countTokens(item.text) : MEDIA_PART_TOKENS),
+              0
+            )
+          );
+        }
+        return sum + counter.countTokens(getToolOutputText(output));
+      }
+      case 'image':
+      case 'file':
+        return sum + MEDIA_PART_TOKENS;
+      default:
+        return sum + 100; // Default estimate for other parts
+    }
+  }, 0);
+}
@@ -0,0 +1,150 @@
+import type { GenerateTextResult } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import type { VerifyCompletionContext } from './ralph-loop-agent-evaluator';
+import {
+  allOf,
+  anyOf,
+  custom,
+  majorityOf,
+  outputMatchesSchema,
+  textIncludes,
+  toolWasCalled,
+} from './ralph-verifiers';
+import { createMockResult } from './test-utils';
+
+// Minimal iteration result with the given text and tool calls
+const createResult = (text: string, toolNames: Array<string> = []) =>
+  createMockResult({
+    text,
+    steps: [{ toolCalls: toolNames.map(toolName => ({ toolName })) }],
+  });
+
+const createContext = (
+  text: string,
+  toolNames: Array<string> = [],
+  previous: Array<GenerateTextResult<{}, never>> = []
+): VerifyCompletionContext => {
+  const result = createResult(text, toolNames);
+  return {
+    result,
+    iteration: previous.length + 1,
+    allResults: [...previous, result],
+    originalPrompt: 'Do the task',
+  };
+};
+
+const pass = custom(() => true, 'unused');
+const failA = custom(() => false, 'A failed');
+const failB = custom(() => false, 'B failed');
+
+describe('composites', () => {
+  it('allOf() should merge the reasons of all failing verifiers', async () => {
+    expect(await allOf(pass, pass)(createContext(''))).toEqual({
+      complete: true,
+      reason: undefined,
+    });
+    expect(await allOf(pass, failA, failB)(createContext(''))).toEqual({
+      complete: false,
+      reason: '- A failed\n- B failed',
+    });
+    expect(await allOf(pass, failA)(createContext(''))).toEqual({
+      complete: false,
+      reason: 'A failed',
+    });
+  });
+
+  it('anyOf() should pass when one verifier passes', async () => {
+    expect((await anyOf(failA, pass)(createContext(''))).complete).toBe(true);
+    expect(await anyOf(failA, failB)(createContext(''))).toEqual({
+      complete: false,
+      reason: '- A failed\n- B failed',
+    });
+  });
+
+  it('majorityOf() should require more than half to pass', async () => {
+    expect((await majorityOf(pass, pass, failA)(createContext(''))).complete).toBe(true);
+    expect(await majorityOf(pass, failA, failB)(createContext(''))).toEqual({
+      complete: false,
+      reason: '- A failed\n- B failed',
+    });
+    expect((await majorityOf(pass, failA)(createContext(''))).complete).toBe(false);
+  });
+});
+
+describe('textIncludes', () => {
+  it('should match strings and patterns', async () => {
+    expect((await textIncludes('DONE')(createContext('All DONE'))).complete).toBe(true);
+    expect((await textIncludes(/^done$/im)(createContext('ok\ndone'))).complete).toBe(true);
+    expect(await textIncludes('DONE', { reason: 'Say DONE' })(createContext('nope'))).toEqual({
+      complete: false,
+      reason: 'Say DONE',
+    });
+  });
+
+  it('should match global patterns in every iteration', async () => {
+    const verify = textIncludes(/done/g);
+
+    expect((await verify(createContext('done'))).complete).toBe(true);
+    expect((await verify(createContext('done'))).complete).toBe(true);
+  });
+});
+
+describe('toolWasCalled', () => {
+  it('should check the current iteration by default', async () => {
+    const previous = [createResult('', ['markComplete'])];
+
+    expect((await toolWasCalled('markComplete')(createContext('', ['markComplete']))).complete).toBe(
+      true
+    );
+    expect((await toolWasCalled('markComplete')(createContext('', [], previous))).complete).toBe(
+      false
+    );
+    expect(
+      (await toolWasCalled('markComplete', { anyIteration: true })(createContext('', [], previous)))
+        .complete
+    ).toBe(true);
+  });
+});
+
+describe('outputMatchesSchema', () => {
+  const schema = z.object({ summary: z.string(), files: z.array(z.string()) });
+
+  it('should accept JSON matching the schema, also in a code block', async () => {
+    const json = '{"summary":"done","files":["a.ts"]}';
+
+    expect((await outputMatchesSchema(schema)(createContext(json))).complete).toBe(true);
+    expect(
+      (await outputMatchesSchema(schema)(createContext(`Here it is:\n\`\`\`json\n${json}\n\`\`\``)))
+        .complete
+    ).toBe(true);
+  });
+
+  it('should report the schema issues as feedback', async () => {
+    const result = await outputMatchesSchema(schema)(createContext('{"summary":1,"files":[]}'));
+
+    expect(result.complete).toBe(false);
+    expect(result.reason).toContain('summary:');
+  });
+
+  it('should reject text that is not JSON', async () => {
+    const result = await outputMatchesSchema(schema)(createContext('not json'));
+
+    expect(result.complete).toBe(false);
+    expect(result.reason).toContain('not valid JSON');
+  });
+});
+
+describe('custom', () => {
+  it('should compute the reason from the context', async () => {
+    const verifier = custom(
+      ({ result }) => result.text.length > 5,
+      ({ result }) => `Only ${result.text.length} characters`
+    );
+
+    expect(await verifier(createContext('abc'))).toEqual({
+      complete: false,
+      reason: 'Only 3 characters',
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { ToolSet } from 'ai';
+import { safeParseJSON, type FlexibleSchema } from '@ai-sdk/provider-utils';
+import type {
+  VerifyCompletionContext,
+  VerifyCompletionFunction,
+  VerifyCompletionResult,
+} from './ralph-loop-agent-evaluator';
+
+/**
+ * Merge the reasons of several verification results into one message.
+ */
+export function mergeReasons(results: Array<VerifyCompletionResult>): string | undefined {
+  const reasons = results
+    .map(result => result.reason)
+    .filter((reason): reason is string => !!reason);
+
+  if (reasons.length <= 1) {
+    return reasons[0];
+  }
+  return reasons.map(reason => `- ${reason}`).join('\n');
+}
+
+/**
+ * Run verifiers in parallel.
+ */
+function runVerifiers<TOOLS extends ToolSet>(
+  verifiers: Array<VerifyCompletionFunction<TOOLS>>,
+  context: VerifyCompletionContext<TOOLS>
+): Promise<Array<VerifyCompletionResult>> {
+  return Promise.all(verifiers.map(verifier => verifier(context)));
+}
+
+/**
+ * Complete when every verifier passes. Reasons of all failing verifiers
+ * are merged into the feedback.
+ *
+ * @example
+ * ```ts
+ * verifyCompletion: allOf(
+ *   toolWasCalled('markComplete'),
+ *   custom(async () => (await runTests()).passed, 'Tests are failing'),
+ * )
+ * ```
+ */
+export function allOf<TOOLS extends ToolSet = any>(
+  ...verifiers: Array<VerifyCompletionFunction<TOOLS>>
+): VerifyCompletionFunction<TOOLS> {
+  return async context => {
+    const results = await runVerifiers(verifiers, context);
+    const failed = results.filter(result => !result.complete);
+
+    if (failed.length === 0) {
+      return { complete: true, reason: mergeReasons(results) };
+    }
+    return { complete: false, reason: mergeReasons(failed) };
+  };
+}
+
+/**
+ * Complete when at least one verifier passes.
+ */
+export function anyOf<TOOLS extends ToolSet = any>(
+  ...verifiers: Array<VerifyCompletionFunction<TOOLS>>
+): VerifyCompletionFunction<TOOLS> {
+  return async context => {
+    const results = await runVerifiers(verifiers, context);
+    const passed = results.find(result => result.complete);
+
+    if (passed) {
+      return passed;
+    }
+    return { complete: false, reason: mergeReasons(results) };
+  };
+}
+
+/**
+ * Complete when more than half of the verifiers pass.
+ * Useful with several LLM judges.
+ */
+export function majorityOf<TOOLS extends ToolSet = any>(
+  ...verifiers: Array<VerifyCompletionFunction<TOOLS>>
+): VerifyCompletionFunction<TOOLS> {
+  return async context => {
+    const results = await runVerifiers(verifiers, context);
+    const passed = results.filter(result => result.complete);
+    const failed = results.filter(result => !result.complete);
+
+    if (passed.length > results.length / 2) {
+      return { complete: true, reason: mergeReasons(passed) };
+    }
+    return { complete: false, reason: mergeReasons(failed) };
+  };
+}
+
+/**
+ * Complete when the final text of the iteration contains a string or matches a pattern.
+ */
+export function textIncludes<TOOLS extends ToolSet = any>(
+  expected: string | RegExp,
+  { reason }: { reason?: string } = {}
+): VerifyCompletionFunction<TOOLS> {
+  return ({ result }) => {
+    if (typeof expected !== 'string') {
+      // Global and sticky patterns continue from the last match otherwise
+      expected.lastIndex = 0;
+    }
+    const matches =
+      typeof expected === 'string' ? result.text.includes(expected) : expected.test(result.text);
+
+    return matches
+      ? { complete: true }
+      : { complete: false, reason: reason ?? `The response does not include ${String(expected)}` };
+  };
+}
+
+/**
+ * Complete when a tool was called in the iteration (or in any iteration).
+ *
+ * @example
+ * ```ts
+ * verifyCompletion: toolWasCalled('markComplete')
+ * ```
+ */
+export function toolWasCalled<TOOLS extends ToolSet = any>(
+  toolName: keyof TOOLS & string,
+  { anyIteration = false, reason }: { anyIteration?: boolean; reason?: string } = {}
+): VerifyCompletionFunction<TOOLS> {
+  return ({ result, allResults }) => {
+    const results = anyIteration ? allResults : [result];
+    const called = results.some(r =>
+      r.steps.some(step => step.toolCalls.some(call => call.toolName === toolName))
+    );
+
+    return called
+      ? { complete: true }
+      : { complete: false, reason: reason ?? `Call the ${toolName} tool when the task is done` };
+  };
+}
+
+/**
+ * Get the JSON text from a response, unwrapping a markdown code block if present.
+ */
+export function extractJsonText(text: string): string {
+  const codeBlock = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  return (codeBlock?.[1] ?? text).trim();
+}
+
+/**
+ * Describe why a value did not match a schema, listing the issues if available.
+ */
+export function formatSchemaError(error: Error): string {
+  const issues = (error.cause as { issues?: Array<{ path?: Array<unknown>; message: string }> })
+    ?.issues;
+
+  if (!issues || issues.length === 0) {
+    return error.message;
+  }
+  return issues
+    .map(issue => {
+      const path = issue.path?.map(segment => String(segment)).join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('\n');
+}
+
+/**
+ * Complete when the final text is JSON that matches a schema
+ * (a markdown code block around the JSON is allowed).
+ *
+ * @example
+ * ```ts
+ * verifyCompletion: outputMatchesSchema(z.object({ summary: z.string(), filesChanged: z.array(z.string()) }))
+ * ```
+ */
+export function outputMatchesSchema<TOOLS extends ToolSet = any>(
+  schema: FlexibleSchema<unknown>
+): VerifyCompletionFunction<TOOLS> {
+  return async ({ result }) => {
+    const parsed = await safeParseJSON({ text: extractJsonText(result.text), schema });
+
+    return parsed.success
+      ? { complete: true }
+      : {
+          complete: false,
+          reason: `The response is not valid JSON matching the expected schema:\n${formatSchemaError(parsed.error)}`,
+        };
+  };
+}
+
+/**
+ * Build a verifier from a predicate and the feedback to give when it fails.
+ *
+ * @example
+ * ```ts
+ * custom(async () => (await runTests()).passed, 'The test suite is failing')
+ * ```
+ */
+export function custom<TOOLS extends ToolSet = any>(
+  check: (context: VerifyCompletionContext<TOOLS>) => boolean | Promise<boolean>,
+  reason: string | ((context: VerifyCompletionContext<TOOLS>) => string | Promise<string>)
+): VerifyCompletionFunction<TOOLS> {
+  return async context => {
+    if (await check(context)) {
+      return { complete: true };
+    }
+    return {
+      complete: false,
+      reason: typeof reason === 'string' ? reason : await reason(context),
+    };
+  };
+}
@@ -0,0 +1,100 @@
+import type { GenerateTextResult, LanguageModelUsage, ToolSet } from 'ai';
+import { convertArrayToReadableStream } from 'ai/test';
+import type { RalphStopConditionContext } from './ralph-stop-condition';
+
+type DeepPartial<T> = T extends (...args: never[]) => unknown
+  ? T
+  : T extends Array<infer U>
+    ? Array<DeepPartial<U>>
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+/**
+ * Usage of one mock model call: 10 input and 20 output tokens, of which
+ * `cacheRead` input tokens were read from the cache.
+ */
+export const createMockUsage = (cacheRead?: number) => ({
+  inputTokens: { total: 10, noCache: 10 - (cacheRead ?? 0), cacheRead, cacheWrite: undefined },
+  outputTokens: { total: 20, text: 20, reasoning: undefined },
+});
+
+/**
+ * Mock model response that answers with text.
+ */
+export const textResponse = (text: string, usage = createMockUsage()) => ({
+  content: [{ type: 'text' as const, text }],
+  finishReason: { unified: 'stop' as const, raw: 'stop' },
+  usage,
+  warnings: [],
+});
+
+/**
+ * Mock model response that calls tools (ids default to `call-1`, `call-2`, ...).
+ */
+export const toolCallResponse = (
+  calls: Array<{ toolName: string; input: unknown; toolCallId?: string }>,
+  usage = createMockUsage()
+) => ({
+  content: calls.map(({ toolName, input, toolCallId }, index) => ({
+    type: 'tool-call' as const,
+    toolCallId: toolCallId ?? `call-${index + 1}`,
+    toolName,
+    input: JSON.stringify(input),
+  })),
+  finishReason: { unified: 'tool-calls' as const, raw: 'tool_use' },
+  usage,
+  warnings: [],
+});
+
+/**
+ * Mock stream response that streams the text (if any), then finishes.
+ */
+export const streamResponse = (text?: string, usage = createMockUsage()) => ({
+  stream: convertArrayToReadableStream([
+    { type: 'stream-start' as const, warnings: [] },
+    ...(text === undefined
+      ? []
+      : [
+          { type: 'text-start' as const, id: '1' },
+          { type: 'text-delta' as const, id: '1', delta: text },
+          { type: 'text-end' as const, id: '1' },
+        ]),
+    { type: 'finish' as const, finishReason: { unified: 'stop' as const, raw: 'stop' }, usage },
+  ]),
+});
+
+/**
+ * Usage totals as the loop reports them.
+ */
+export const createUsage = (
+  inputTokens: number,
+  outputTokens = 0,
+  reasoningTokens?: number
+): LanguageModelUsage => ({
+  inputTokens,
+  inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: undefined, cacheWriteTokens: undefined },
+  outputTokens,
+  outputTokenDetails: { textTokens: undefined, reasoningTokens },
+  totalTokens: inputTokens + outputTokens,
+});
+
+/**
+ * Iteration result with only the given fields, for code that reads no others.
+ */
+export const createMockResult = <TOOLS extends ToolSet = {}>(
+  fields: DeepPartial<GenerateTextResult<TOOLS, never>>
+) => fields as unknown as GenerateTextResult<TOOLS, never>;
+
+/**
+ * Stop condition context of the first iteration without usage.
+ */
+export const createStopContext = (
+  overrides: Partial<RalphStopConditionContext> = {}
+): RalphStopConditionContext => ({
+  iteration: 1,
+  allResults: [],
+  totalUsage: createUsage(0),
+  model: 'test',
+  ...overrides,
+});